@@ -0,0 +1,98 @@
+import { bench, describe } from "vitest";
+import { ButterKeyedEnum } from "../src/butterKeyedEnum";
+
+const SIZE = 500;
+
+const definition = Object.fromEntries(
+  Array.from({ length: SIZE }, (_, index) => [
+    `key${index}`,
+    { label: `Label ${index}`, rank: index, tags: ["a", "b"] },
+  ])
+);
+const keys = Object.keys(definition);
+// The keys are widened to string, so the tuple can't be checked at compile time
+const tupleFactory = ((enumObject: object) => Object.values(enumObject)) as never;
+
+const Plain = Object.freeze(definition);
+const Keyed = ButterKeyedEnum(definition);
+const Ordered = ButterKeyedEnum(definition, {
+  tupleFactory,
+});
+
+describe("construction", () => {
+  bench("plain object with Object.freeze", () => {
+    Object.freeze({ ...definition });
+  });
+
+  bench("ButterKeyedEnum", () => {
+    ButterKeyedEnum(definition);
+  });
+
+  bench("ButterKeyedEnum with tupleFactory", () => {
+    ButterKeyedEnum(definition, {
+      tupleFactory,
+    });
+  });
+
+  bench("ButterKeyedEnum without validation", () => {
+    ButterKeyedEnum(definition, {
+      tupleFactory,
+      validate: "never",
+    });
+  });
+
+  bench("ButterKeyedEnum without freezing", () => {
+    ButterKeyedEnum(definition, {
+      tupleFactory,
+      freeze: "none",
+    });
+  });
+});
+
+describe("lookup by key", () => {
+  bench("plain object with hasOwnProperty", () => {
+    for (const key of keys) {
+      if (Object.prototype.hasOwnProperty.call(Plain, key)) {
+        Plain[key];
+      }
+    }
+  });
+
+  bench("get", () => {
+    for (const key of keys) {
+      Keyed.get(key);
+    }
+  });
+
+  bench("isKey", () => {
+    for (const key of keys) {
+      Keyed.isKey(key);
+    }
+  });
+
+  bench("get with prototype keys", () => {
+    Keyed.get("constructor");
+    Keyed.get("toString");
+    Keyed.get("missing");
+  });
+});
+
+describe("derived arrays", () => {
+  bench("plain object with Object.keys and Object.values", () => {
+    Object.keys(Plain);
+    Object.values(Plain);
+  });
+
+  bench("keys and values", () => {
+    Keyed.keys;
+    Keyed.values;
+  });
+
+  bench("orderedKeys", () => {
+    Ordered.orderedKeys;
+  });
+
+  bench("record", () => {
+    Ordered.record((value) => value.rank);
+  });
+});
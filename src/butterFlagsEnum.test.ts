@@ -0,0 +1,140 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { ButterFlagsEnum } from "./butterFlagsEnum";
+import { ButterEnumsAssertionError, ButterEnumsDefinitionError } from "./shared/errors";
+
+describe("ButterFlagsEnum", () => {
+  const Permissions = ButterFlagsEnum(["read", "write", "admin"], {
+    name: "Permissions",
+    composites: { readWrite: ["read", "write"] },
+  });
+
+  it("should assign bits in tuple order", () => {
+    expect(Permissions.bits).toEqual({ read: 1, write: 2, admin: 4 });
+    expect(Object.isFrozen(Permissions.bits)).toBe(true);
+    expectTypeOf(Permissions.bits.read).toEqualTypeOf<number>();
+  });
+
+  it("should keep the tuple enum surface", () => {
+    expect(Permissions.tuple).toEqual(["read", "write", "admin"]);
+    expect(Permissions.enum.write).toBe("write");
+    expect(Permissions.isKey("admin")).toBe(true);
+  });
+
+  it("should expose composites, including all and none", () => {
+    expect(Permissions.composites).toEqual({ all: 7, none: 0, readWrite: 3 });
+  });
+
+  it("should encode and decode masks", () => {
+    expect(Permissions.encode(["read", "admin"])).toBe(5);
+    expect(Permissions.encode(["readWrite", "read"])).toBe(3);
+    expect(Permissions.encode([])).toBe(0);
+    expect(Permissions.decode(6)).toEqual(["write", "admin"]);
+    expect(Permissions.decode(Permissions.composites.all)).toEqual(["read", "write", "admin"]);
+  });
+
+  it("should check flags and composites in a mask", () => {
+    expect(Permissions.has(5, "admin")).toBe(true);
+    expect(Permissions.has(5, "write")).toBe(false);
+    expect(Permissions.has(3, "readWrite")).toBe(true);
+    expect(Permissions.has(1, "readWrite")).toBe(false);
+    expect(Permissions.has(0, "none")).toBe(true);
+  });
+
+  it("should add, remove, and toggle flags", () => {
+    expect(Permissions.add(1, "write")).toBe(3);
+    expect(Permissions.add(1, "read")).toBe(1);
+    expect(Permissions.remove(7, "readWrite")).toBe(4);
+    expect(Permissions.remove(4, "read")).toBe(4);
+    expect(Permissions.toggle(5, "read", "write")).toBe(6);
+  });
+
+  it("should reject unknown flags with suggestions", () => {
+    // @ts-expect-error - not a flag
+    expect(() => Permissions.encode(["reed"])).toThrow(
+      'Expected a key of Permissions, but received "reed". Did you mean "read"?'
+    );
+    // @ts-expect-error - not a flag
+    expect(() => Permissions.has(1, "root")).toThrow(ButterEnumsAssertionError);
+  });
+
+  it("should reject invalid masks", () => {
+    expect(() => Permissions.decode(-1)).toThrow(ButterEnumsAssertionError);
+    expect(() => Permissions.decode(1.5)).toThrow("Expected a value of Permissions, but received 1.5");
+  });
+
+  it("should ignore unknown bits unless strict", () => {
+    expect(Permissions.decode(9)).toEqual(["read"]);
+    const Strict = ButterFlagsEnum(["read", "write"], { name: "Strict", strict: true });
+    expect(Strict.decode(3)).toEqual(["read", "write"]);
+    expect(() => Strict.decode(4)).toThrow("Expected a value of Strict, but received 4");
+    expect(() => Strict.add(4, "read")).toThrow(ButterEnumsAssertionError);
+  });
+
+  it("should switch to bigint masks past 31 flags", () => {
+    const flags = Array.from({ length: 40 }, (_, index) => `flag${index}`);
+    const Wide = ButterFlagsEnum(flags as [string, ...string[]]);
+    expect(Wide.bits.flag0).toBe(1n);
+    expect(Wide.bits.flag39).toBe(1n << 39n);
+    expect(Wide.encode(["flag0", "flag35"])).toBe(1n | (1n << 35n));
+    expect(Wide.decode((1n << 32n) | 2n)).toEqual(["flag1", "flag32"]);
+    expect(Wide.composites.all).toBe((1n << 40n) - 1n);
+  });
+
+  it("should type masks as bigint for tuples of more than 31 flags", () => {
+    const Wide = ButterFlagsEnum([
+      "f0", "f1", "f2", "f3", "f4", "f5", "f6", "f7", "f8", "f9",
+      "f10", "f11", "f12", "f13", "f14", "f15", "f16", "f17", "f18", "f19",
+      "f20", "f21", "f22", "f23", "f24", "f25", "f26", "f27", "f28", "f29",
+      "f30", "f31",
+    ]);
+    expectTypeOf(Wide.encode(["f31"])).toEqualTypeOf<bigint>();
+    expect(Wide.encode(["f31"])).toBe(1n << 31n);
+  });
+
+  it("should reject composites that clash with flags", () => {
+    expect(() =>
+      ButterFlagsEnum(["read", "write"], {
+        // @ts-expect-error - composites must only contain flags
+        composites: { read: ["write"] as const, other: ["nope"] },
+      })
+    ).toThrow(ButterEnumsDefinitionError);
+    expect(() => ButterFlagsEnum(["read"], { composites: { all: ["read"] } })).toThrow(
+      'ButterFlagsEnum has a composite named "all", which is already the name of a flag or composite'
+    );
+  });
+
+  it("should reject flags named like the built-in composites", () => {
+    expect(() => ButterFlagsEnum(["read", "all"])).toThrow(
+      'ButterFlagsEnum has a flag named "all", which is the name of a built-in composite'
+    );
+    expect(() => ButterFlagsEnum(["none"], { name: "Permissions" })).toThrow(
+      expect.objectContaining({ code: "DUPLICATE_KEY" })
+    );
+  });
+
+  it("should allow appending flags to the previous tuple", () => {
+    const Appended = ButterFlagsEnum(["read", "write", "admin"], { previous: ["read", "write"] });
+    expect(Appended.bits.admin).toBe(4);
+  });
+
+  it("should reject changes that shift bit assignments", () => {
+    try {
+      ButterFlagsEnum(["read", "admin"], {
+        name: "Permissions",
+        // @ts-expect-error - the tuple doesn't start with the previous tuple
+        previous: ["read", "write"],
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ButterEnumsDefinitionError);
+      expect((error as ButterEnumsDefinitionError).code).toBe("BIT_ASSIGNMENT_CHANGED");
+      expect((error as Error).message).toBe(
+        'Permissions would shift its bit assignments: bit 1 was "write", but is now "admin". Only append new flags, and rename retired flags instead of removing them'
+      );
+    }
+    // @ts-expect-error - removing the last flag also changes the meaning of stored masks
+    expect(() => ButterFlagsEnum(["read"], { previous: ["read", "write"] })).toThrow(
+      'bit 1 was "write", but is now undefined'
+    );
+  });
+});
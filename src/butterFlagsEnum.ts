@@ -0,0 +1,254 @@
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { ButterEnumsErrorMessage } from "./shared/error-message";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  describeInput,
+} from "./shared/errors";
+import { extendEnum } from "./shared/extend";
+import { suggestKeys } from "./shared/suggest";
+
+/**
+ * The mask type of a flags enum: `number` for up to 31 flags, and `bigint` past that
+ *
+ * @template T The tuple of flags
+ */
+export type ButterFlagsMask<T extends readonly string[]> =
+  number extends T["length"]
+    ? number | bigint
+    : "31" extends keyof T
+      ? bigint
+      : number;
+
+/**
+ * Butter Flags Enum
+ *
+ * Flags enums are tuple enums whose tuple order assigns bit positions,
+ * so sets of flags can be stored as integer bitmasks.
+ *
+ * E.g.
+ *
+ * ```typescript
+ * const Permissions = ButterFlagsEnum(['read', 'write', 'admin'], {
+ *   composites: { readWrite: ['read', 'write'] },
+ * })
+ *
+ * Permissions.bits.write // 2
+ * Permissions.encode(['read', 'admin']) // 5
+ * Permissions.decode(5) // ['read', 'admin']
+ * Permissions.has(5, 'write') // false
+ * Permissions.composites.all // 7
+ * ```
+ *
+ * The tuple must stay append-only, or stored masks change meaning.
+ * Pass the previously released tuple as `previous` to guard against that,
+ * and rename retired flags (e.g. to `_retired1`) instead of removing them.
+ *
+ * @template T The tuple of flags
+ * @template TComposites The named combinations of flags
+ * @template TPrevious The previously released tuple of flags
+ * @param tuple The tuple of flags, in bit order
+ * @param options Configuration options
+ * @param options.name The name of the enum, used in error messages. Defaults to `"ButterFlagsEnum"`
+ * @param options.composites Named combinations of flags. `all` and `none` are always available
+ * @param options.strict Whether to reject masks with bits that don't belong to a flag. Defaults to `false`
+ * @param options.previous The previously released tuple, which the tuple must start with
+ * @returns The tuple enum object with bitmask helpers
+ * @throws {ButterEnumsDefinitionError} If the bit assignments would shift, a flag is named `all` or `none`, or a composite clashes with a flag
+ */
+export function ButterFlagsEnum<
+  const T extends readonly string[],
+  const TComposites extends {
+    [name: string]: readonly T[number][];
+  } = {},
+  const TPrevious extends readonly string[] = [],
+>(
+  tuple: T,
+  options?: {
+    name?: string;
+    composites?: TComposites;
+    strict?: boolean;
+    previous?: TPrevious &
+      (T extends readonly [...TPrevious, ...string[]]
+        ? unknown
+        : ButterEnumsErrorMessage<"The tuple must start with the previous tuple, or the bit assignments would shift">);
+  }
+) {
+  const enumName = options?.name ?? "ButterFlagsEnum";
+  const base = ButterTupleEnum(tuple, { name: enumName });
+  const useBigInt = tuple.length > 31;
+
+  type TMask = ButterFlagsMask<T>;
+  type TFlag = T[number];
+  type TCompositeName = (keyof TComposites & string) | "all" | "none";
+
+  const previous: readonly string[] = options?.previous ?? [];
+  const shifted = previous.findIndex((flag, index) => tuple[index] !== flag);
+  if (shifted !== -1 || tuple.length < previous.length) {
+    const index = shifted === -1 ? tuple.length : shifted;
+    throw new ButterEnumsDefinitionError(
+      "BIT_ASSIGNMENT_CHANGED",
+      enumName,
+      `${enumName} would shift its bit assignments: bit ${index} was ${describeInput(previous[index])}, but is now ${describeInput(tuple[index])}. Only append new flags, and rename retired flags instead of removing them`
+    );
+  }
+
+  const toMask = (mask: bigint) =>
+    (useBigInt ? mask : Number(mask)) as TMask;
+  const bitsByFlag = new Map<string, bigint>(
+    tuple.map((flag, index) => [flag, 1n << BigInt(index)])
+  );
+  const allBits = tuple.reduce((mask, flag) => mask | bitsByFlag.get(flag)!, 0n);
+
+  const compositeBits = new Map<string, bigint>([
+    ["all", allBits],
+    ["none", 0n],
+  ]);
+  for (const name of compositeBits.keys()) {
+    if (bitsByFlag.has(name)) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_KEY",
+        enumName,
+        `${enumName} has a flag named ${describeInput(name)}, which is the name of a built-in composite`
+      );
+    }
+  }
+  for (const [name, flags] of Object.entries(options?.composites ?? {})) {
+    if (bitsByFlag.has(name) || compositeBits.has(name)) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_KEY",
+        enumName,
+        `${enumName} has a composite named ${describeInput(name)}, which is already the name of a flag or composite`
+      );
+    }
+    compositeBits.set(name, encodeBits(flags));
+  }
+
+  /**
+   * Resolves a flag or composite name to its bits
+   */
+  function bitsOf(flag: unknown): bigint {
+    const bits =
+      typeof flag === "string"
+        ? bitsByFlag.get(flag) ?? compositeBits.get(flag)
+        : undefined;
+    if (bits === undefined) {
+      throw new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        flag,
+        suggestKeys(flag, [...bitsByFlag.keys(), ...compositeBits.keys()])
+      );
+    }
+    return bits;
+  }
+
+  function encodeBits(flags: Iterable<unknown>): bigint {
+    let mask = 0n;
+    for (const flag of flags) {
+      mask |= bitsOf(flag);
+    }
+    return mask;
+  }
+
+  /**
+   * Validates a mask and converts it to a bigint for bitwise operations
+   */
+  function readMask(mask: number | bigint): bigint {
+    const bits =
+      typeof mask === "bigint"
+        ? mask
+        : Number.isSafeInteger(mask)
+          ? BigInt(mask)
+          : -1n;
+    if (bits < 0n || (options?.strict && (bits & ~allBits) !== 0n)) {
+      throw new ButterEnumsAssertionError(enumName, "value", mask);
+    }
+    return bits;
+  }
+
+  return extendEnum(base, {
+    /**
+     * The bit of each flag
+     *
+     * @type {{ [K in TFlag]: TMask }}
+     */
+    bits: Object.freeze(
+      Object.fromEntries(
+        tuple.map((flag) => [flag, toMask(bitsByFlag.get(flag)!)])
+      )
+    ) as { readonly [K in TFlag]: TMask },
+    /**
+     * The mask of each composite, including `all` and `none`
+     *
+     * @type {{ [K in TCompositeName]: TMask }}
+     */
+    composites: Object.freeze(
+      Object.fromEntries(
+        [...compositeBits].map(([name, bits]) => [name, toMask(bits)])
+      )
+    ) as { readonly [K in TCompositeName]: TMask },
+    /**
+     * Encodes flags and composites into a mask
+     *
+     * @param flags The flags and composites to set
+     * @returns {TMask} The mask
+     * @throws {ButterEnumsAssertionError} If a flag doesn't exist
+     */
+    encode(flags: Iterable<TFlag | TCompositeName>): TMask {
+      return toMask(encodeBits(flags));
+    },
+    /**
+     * Decodes a mask into its flags, in tuple order
+     *
+     * @param mask The mask to decode
+     * @returns {TFlag[]} The flags that are set
+     * @throws {ButterEnumsAssertionError} If the mask is invalid, or has unknown bits in strict mode
+     */
+    decode(mask: TMask): TFlag[] {
+      const bits = readMask(mask);
+      return tuple.filter((flag) => (bits & bitsByFlag.get(flag)!) !== 0n);
+    },
+    /**
+     * Checks if every bit of a flag or composite is set in a mask
+     *
+     * @param mask The mask to check
+     * @param flag The flag or composite to check for
+     * @returns {boolean} True if the flag is set
+     */
+    has(mask: TMask, flag: TFlag | TCompositeName): boolean {
+      const bits = bitsOf(flag);
+      return (readMask(mask) & bits) === bits;
+    },
+    /**
+     * Sets flags in a mask
+     *
+     * @param mask The mask to change
+     * @param flags The flags and composites to set
+     * @returns {TMask} The new mask
+     */
+    add(mask: TMask, ...flags: (TFlag | TCompositeName)[]): TMask {
+      return toMask(readMask(mask) | encodeBits(flags));
+    },
+    /**
+     * Clears flags in a mask
+     *
+     * @param mask The mask to change
+     * @param flags The flags and composites to clear
+     * @returns {TMask} The new mask
+     */
+    remove(mask: TMask, ...flags: (TFlag | TCompositeName)[]): TMask {
+      return toMask(readMask(mask) & ~encodeBits(flags));
+    },
+    /**
+     * Flips flags in a mask
+     *
+     * @param mask The mask to change
+     * @param flags The flags and composites to flip
+     * @returns {TMask} The new mask
+     */
+    toggle(mask: TMask, ...flags: (TFlag | TCompositeName)[]): TMask {
+      return toMask(readMask(mask) ^ encodeBits(flags));
+    },
+  });
+}
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest";
 import { ButterKeyedEnum } from "./butterKeyedEnum";
-import { makeButterEnumsErrorMessage } from "./shared/error-message";
+import { StandardSchemaV1 } from "./shared/standard-schema";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  ButterEnumsError,
+} from "./shared/errors";
 
 describe("ButterKeyedEnum", () => {
   const Fruits = ButterKeyedEnum(
@@ -96,6 +101,24 @@ describe("ButterKeyedEnum", () => {
     expect(Fruits.values[2].key).toBe("lemon");
   });
 
+  it("should compute keys, values and ordered keys once and freeze them", () => {
+    expect(Fruits.keys).toBe(Fruits.keys);
+    expect(Fruits.values).toBe(Fruits.values);
+    expect(Fruits.orderedKeys).toBe(Fruits.orderedKeys);
+    expect(Object.isFrozen(Fruits.keys)).toBe(true);
+    expect(Object.isFrozen(Fruits.values)).toBe(true);
+    expect(Object.isFrozen(Fruits.orderedKeys)).toBe(true);
+  });
+
+  it("should not treat prototype properties as keys", () => {
+    expect(Fruits.get("constructor")).toBeUndefined();
+    expect(Fruits.get("toString")).toBeUndefined();
+    expect(Fruits.get("__proto__")).toBeUndefined();
+    expect(Fruits.getMany(["hasOwnProperty"])).toEqual([undefined]);
+    expect(Fruits.isKey("constructor")).toBe(false);
+    expect(() => Fruits.parse("valueOf")).toThrow(ButterEnumsAssertionError);
+  });
+
   it("should find values based on a predicate", () => {
     const yellowFruit = Fruits.find((fruit) => fruit.color === "yellow");
     expect(yellowFruit).toBeDefined();
@@ -124,6 +147,53 @@ describe("ButterKeyedEnum", () => {
     }).toThrow();
   });
 
+  it("should freeze according to the freeze option", () => {
+    class Icon {
+      size = 16;
+    }
+    const definition = () => ({
+      save: { label: "Save", icon: new Icon(), meta: { order: 1 } },
+    });
+
+    const Shallow = ButterKeyedEnum(definition(), {
+      freeze: "shallow",
+      tupleFactory: (enumObject) => [enumObject.save],
+    });
+    expect(Object.isFrozen(Shallow.enum)).toBe(true);
+    expect(Object.isFrozen(Shallow.enum.save)).toBe(true);
+    expect(Object.isFrozen(Shallow.tuple)).toBe(true);
+    Shallow.enum.save.icon.size = 24;
+    expect(Shallow.enum.save.icon.size).toBe(24);
+
+    const Unfrozen = ButterKeyedEnum(definition(), { freeze: "none" });
+    expect(Object.isFrozen(Unfrozen.enum)).toBe(false);
+    expect(Object.isFrozen(Unfrozen.enum.save)).toBe(false);
+
+    const Deep = ButterKeyedEnum(definition());
+    // @ts-expect-error - the types stay readonly
+    Unfrozen.enum.save = Deep.enum.save;
+    expect(Object.isFrozen(Deep.enum.save.icon)).toBe(true);
+    expect(Object.isFrozen(Deep.pick(["save"]).enum.save)).toBe(true);
+    expect(Object.isFrozen(Unfrozen.pick(["save"]).enum.save)).toBe(false);
+  });
+
+  it("should freeze metadata holding collections more than once", () => {
+    const shortcuts = new Map([["mac", "⌘S"]]);
+    const Actions = ButterKeyedEnum({
+      save: { shortcuts },
+      open: { shortcuts: new Set(["⌘O"]) },
+    });
+    const Saving = Actions.pick(["save"]);
+    expect(Saving.enum.save.shortcuts).toBe(shortcuts);
+    expect(Actions.omit(["save"]).keys).toEqual(["open"]);
+    expect(ButterKeyedEnum({ save: { shortcuts } }).enum.save.shortcuts).toBe(
+      shortcuts
+    );
+    expect(() => shortcuts.set("linux", "Ctrl+S")).toThrow(
+      "The Map is read-only"
+    );
+  });
+
   it("should work with empty objects", () => {
     const EmptyEnum = ButterKeyedEnum(
       {},
@@ -134,9 +204,9 @@ describe("ButterKeyedEnum", () => {
     expect(EmptyEnum.enum).toEqual({});
     expect(EmptyEnum.keys).toEqual([]);
     expect(EmptyEnum.values).toEqual([]);
-    expect(EmptyEnum.tuple).toEqual(makeButterEnumsErrorMessage(
-      "Provide tupleFactory if you want a tuple, and ensure it's not empty"
-    ));
+    expect(() => EmptyEnum.tuple).toThrow(
+      "ButterKeyedEnum has no tuple. Provide tupleFactory if you want a tuple, and ensure it's not empty"
+    );
   });
 
   it("should work with bad tuple factory, but the typing should warn", () => {
@@ -159,6 +229,7 @@ describe("ButterKeyedEnum", () => {
         },
       },
       {
+        validate: "never",
         // @ts-expect-error
         tupleFactory: (enumObject) => [enumObject.apple, enumObject.lemon],
       }
@@ -220,6 +291,73 @@ describe("ButterKeyedEnum", () => {
     ]);
   });
 
+  describe("definition validation", () => {
+    const fruits = {
+      apple: { color: "red" },
+      banana: { color: "yellow" },
+      lemon: { color: "yellow" },
+    };
+
+    it("should reject tuple factories that omit, duplicate or invent values", () => {
+      expect(() =>
+        ButterKeyedEnum(fruits, {
+          name: "Fruits",
+          // @ts-expect-error - lemon is missing
+          tupleFactory: (enumObject) => [enumObject.apple, enumObject.banana],
+        })
+      ).toThrow('The tupleFactory of Fruits is missing "lemon"');
+      expect(() =>
+        ButterKeyedEnum(fruits, {
+          name: "Fruits",
+          tupleFactory: (enumObject) => [
+            enumObject.apple,
+            enumObject.banana,
+            enumObject.lemon,
+            enumObject.apple,
+          ],
+        })
+      ).toThrow('The tupleFactory of Fruits returns "apple" more than once');
+      expect(() =>
+        ButterKeyedEnum(fruits, {
+          name: "Fruits",
+          tupleFactory: (enumObject) =>
+            [
+              enumObject.apple,
+              enumObject.banana,
+              { ...enumObject.lemon },
+            ] as any,
+        })
+      ).toThrow(
+        expect.objectContaining({ code: "INVALID_TUPLE", enumName: "Fruits" })
+      );
+    });
+
+    it("should reject inner objects that already have the keyName", () => {
+      expect(() =>
+        ButterKeyedEnum({ apple: { key: "red" } } as any, { name: "Fruits" })
+      ).toThrow(
+        'Fruits can\'t hoist its keys into "key", because "apple" already has a "key" property. Pass another keyName'
+      );
+      expect(() =>
+        ButterKeyedEnum({ apple: { id: 1 } } as any, { keyName: "id", validate: "never" })
+      ).not.toThrow();
+    });
+
+    it("should only validate outside of production in dev mode", () => {
+      const nodeEnv = process.env.NODE_ENV;
+      const create = () =>
+        ButterKeyedEnum({ apple: { key: "red" } } as any, { validate: "dev" });
+      try {
+        process.env.NODE_ENV = "production";
+        expect(create).not.toThrow();
+        process.env.NODE_ENV = "development";
+        expect(create).toThrow(ButterEnumsDefinitionError);
+      } finally {
+        process.env.NODE_ENV = nodeEnv;
+      }
+    });
+  });
+
   const Slugs = ButterKeyedEnum(
     {
       apple: {
@@ -346,12 +484,12 @@ describe("ButterKeyedEnum", () => {
         key: "apple",
       },
     ]);
-    expect(NoTupleFactory.tuple).toEqual(makeButterEnumsErrorMessage(
-      "Provide tupleFactory if you want a tuple, and ensure it's not empty"
-    ));
-    expect(NoTupleFactory.getTupleValuesByProperty("slug")).toEqual(makeButterEnumsErrorMessage(
-      "Provide tupleFactory if you want a tuple, and ensure it's not empty"
-    ));
+    expect(() => NoTupleFactory.tuple).toThrow(
+      "ButterKeyedEnum has no tuple. Provide tupleFactory if you want a tuple, and ensure it's not empty"
+    );
+    expect(() => NoTupleFactory.getTupleValuesByProperty("slug")).toThrow(
+      ButterEnumsDefinitionError
+    );
   });
 
   it("should provide ordered keys", () => {
@@ -366,9 +504,643 @@ describe("ButterKeyedEnum", () => {
         sweetness: 7,
       },
     });
-    expect(NoTupleFactory.orderedKeys).toEqual(makeButterEnumsErrorMessage(
-      "Provide tupleFactory if you want ordered keys, and ensure it's not empty"
-    ));
+    expect(() => NoTupleFactory.orderedKeys).toThrow(
+      "ButterKeyedEnum has no tuple. Provide tupleFactory if you want ordered keys, and ensure it's not empty"
+    );
+    expect(() => NoTupleFactory.orderedKeys).toThrow(
+      expect.objectContaining({ code: "MISSING_TUPLE_FACTORY" })
+    );
+  });
+
+  it("should check keys with isKey()", () => {
+    expect(Fruits.isKey("apple")).toBe(true);
+    expect(Fruits.isKey("nonexistent")).toBe(false);
+    expect(Fruits.isKey("toString")).toBe(false);
+    expect(Fruits.isKey(7)).toBe(false);
+    expect(Fruits.isKey(undefined)).toBe(false);
+
+    const input: unknown = "banana";
+    if (Fruits.isKey(input)) {
+      const key: "apple" | "banana" | "lemon" = input;
+      expect(key).toBe("banana");
+    }
+  });
+
+  it("should check values structurally with isValue()", () => {
+    expect(Fruits.isValue(Fruits.enum.apple)).toBe(true);
+    expect(
+      Fruits.isValue({ name: "Apple", color: "red", sweetness: 7, key: "apple" })
+    ).toBe(true);
+    expect(
+      Fruits.isValue({ name: "Apple", color: "red", sweetness: 8, key: "apple" })
+    ).toBe(false);
+    expect(
+      Fruits.isValue({ name: "Apple", color: "red", sweetness: 7, key: "lemon" })
+    ).toBe(false);
+    expect(Fruits.isValue({ name: "Apple", color: "red", sweetness: 7 })).toBe(
+      false
+    );
+    expect(Fruits.isValue("apple")).toBe(false);
+    expect(Fruits.isValue(null)).toBe(false);
+    expect(Slugs.isValue(Slugs.enum.lemon)).toBe(true);
+    expect(Slugs.isValue(Fruits.enum.lemon)).toBe(false);
+  });
+
+  it("should narrow or throw with assertKey() and assertValue()", () => {
+    expect(Fruits.assertKey("lemon")).toBe("lemon");
+    expect(Fruits.assertValue({ ...Fruits.enum.banana })).toEqual(
+      Fruits.enum.banana
+    );
+
+    const Named = ButterKeyedEnum(
+      { apple: { name: "Apple" } },
+      { name: "Fruits" }
+    );
+    expect(() => Named.assertKey("aple")).toThrow(ButterEnumsAssertionError);
+    expect(() => Named.assertKey("aple")).toThrow(
+      'Expected a key of Fruits, but received "aple"'
+    );
+    expect(() => Named.assertValue({ key: "apple" })).toThrow(
+      'Expected a value of Fruits, but received {"key":"apple"}'
+    );
+    expect(() => Fruits.assertKey(42)).toThrow(
+      "Expected a key of ButterKeyedEnum, but received 42"
+    );
+
+    const error = (() => {
+      try {
+        Named.assertKey("aple");
+      } catch (error) {
+        return error as ButterEnumsAssertionError;
+      }
+    })();
+    expect(error?.enumName).toBe("Fruits");
+    expect(error?.input).toBe("aple");
+  });
+
+  it("should parse keys into values with parse()", () => {
+    expect(Fruits.parse("banana")).toBe(Fruits.enum.banana);
+    expect(Slugs.parse("lemon").slug).toBe("lemon");
+    expect(() => Fruits.parse("Banana")).toThrow(
+      'Expected a key of ButterKeyedEnum, but received "Banana". Did you mean "banana"?'
+    );
+    expect(() => Fruits.parse("lemn")).toThrow(ButterEnumsError);
+    expect(() => Fruits.parse("grape")).toThrow(
+      'Expected a key of ButterKeyedEnum, but received "grape"'
+    );
+  });
+
+  it("should parse without throwing using safeParse()", () => {
+    expect(Fruits.safeParse("apple")).toEqual({
+      success: true,
+      value: Fruits.enum.apple,
+    });
+
+    const result = Fruits.safeParse("APPLE");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(ButterEnumsAssertionError);
+      expect(result.error.code).toBe("UNKNOWN_KEY");
+      expect(result.error.suggestions).toEqual(["apple"]);
+    }
+
+    const typo = Fruits.safeParse("bananna");
+    expect(!typo.success && typo.error.suggestions).toEqual(["banana"]);
+  });
+
+  it("should implement Standard Schema with toStandardSchema()", () => {
+    const keySchema = Fruits.toStandardSchema();
+    expect(keySchema["~standard"].version).toBe(1);
+    expect(keySchema["~standard"].vendor).toBe("butter-enums");
+    expect(keySchema["~standard"].validate("lemon")).toEqual({
+      value: "lemon",
+    });
+    expect(keySchema["~standard"].validate("lemons")).toEqual({
+      issues: [
+        {
+          message:
+            'Expected a key of ButterKeyedEnum, but received "lemons". Did you mean "lemon"?',
+          path: [],
+        },
+      ],
+    });
+
+    const valueSchema = Slugs.toStandardSchema({ output: "value" });
+    expect(valueSchema["~standard"].validate("apple")).toEqual({
+      value: Slugs.enum.apple,
+    });
+    expect(valueSchema["~standard"].validate(undefined)).toHaveProperty(
+      "issues"
+    );
+
+    type ValueOutput = StandardSchemaV1.InferOutput<typeof valueSchema>;
+    const output: ValueOutput = Slugs.enum.banana;
+    const input: StandardSchemaV1.InferInput<typeof valueSchema> = output.slug;
+    expect(input).toBe("banana");
+  });
+
+  it("should describe itself with kind, keyName and hasTuple", () => {
+    expect(Fruits.kind).toBe("keyed");
+    expect(Fruits.keyName).toBe("key");
+    expect(Slugs.keyName).toBe("slug");
+    expect(Fruits.hasTuple).toBe(true);
+    expect(ButterKeyedEnum({ apple: {} }).hasTuple).toBe(false);
   });
-});
 
+  it("should call the handler for a key or value with match()", () => {
+    const handlers = {
+      apple: (fruit: typeof Fruits.enum.apple) => fruit.name,
+      banana: (fruit: typeof Fruits.enum.banana) => fruit.sweetness,
+      lemon: () => false as const,
+    };
+    const fromKey = Fruits.match("banana", handlers);
+    const result: string | number | false = fromKey;
+    expect(result).toBe(8);
+    expect(Fruits.match(Fruits.enum.apple, handlers)).toBe("Apple");
+
+    expect(
+      Slugs.match(Slugs.enum.lemon, {
+        apple: (fruit) => fruit.slug,
+        banana: (fruit) => fruit.slug,
+        lemon: (fruit) => fruit.slug.toUpperCase(),
+      })
+    ).toBe("LEMON");
+
+    expect(() => Fruits.match("grape" as "apple", handlers)).toThrow(
+      'Expected a key of ButterKeyedEnum, but received "grape"'
+    );
+
+    // @ts-expect-error - the lemon handler is missing
+    Fruits.match("apple", { apple: () => 1, banana: () => 2 });
+    Fruits.match("apple", {
+      apple: () => 1,
+      banana: () => 2,
+      lemon: () => 3,
+      // @ts-expect-error - there is no cherry
+      cherry: () => 4,
+    });
+  });
+
+  it("should fall back to the _ handler with matchPartial()", () => {
+    const isSour = (fruit: (typeof Fruits.values)[number]) =>
+      Fruits.matchPartial(fruit, {
+        lemon: (lemon) => lemon.sweetness < 3,
+        _: () => "not sour" as const,
+      });
+    const result: boolean | "not sour" = isSour(Fruits.enum.lemon);
+    expect(result).toBe(true);
+    expect(isSour(Fruits.enum.apple)).toBe("not sour");
+
+    // @ts-expect-error - the _ handler is required
+    Fruits.matchPartial("apple", { apple: () => 1 });
+    Fruits.matchPartial("apple", {
+      _: () => 1,
+      // @ts-expect-error - there is no cherry
+      cherry: () => 4,
+    });
+  });
+
+  it("should create a reverse lookup with indexBy()", () => {
+    const byName = Fruits.indexBy("name");
+    expect(byName.property).toBe("name");
+    expect(byName.size).toBe(3);
+
+    const lemon = byName.get("Lemon");
+    const key: "lemon" = lemon.key;
+    expect(key).toBe("lemon");
+
+    const untrusted: string = "Banana";
+    expect(byName.get(untrusted)?.key).toBe("banana");
+    expect(byName.get("Cherry")).toBeUndefined();
+    expect(byName.has("Apple")).toBe(true);
+    expect(byName.has("apple")).toBe(false);
+    expect(Fruits.indexBy("sweetness").get(2)).toBe(Fruits.enum.lemon);
+
+    expect(Fruits.indexBy("name")).toBe(byName);
+    expect(Object.isFrozen(byName)).toBe(true);
+  });
+
+  it("should reject indexBy() on properties with duplicate values", () => {
+    // @ts-expect-error - banana and lemon are both yellow
+    expect(() => Fruits.indexBy("color")).toThrow(
+      'ButterKeyedEnum can\'t be indexed by color, because "yellow" is the value of both "lemon" and "banana"'
+    );
+    expect(() => Fruits.indexBy("color" as any)).toThrow(
+      expect.objectContaining({ code: "DUPLICATE_VALUE" })
+    );
+  });
+
+  it("should group values with groupBy()", () => {
+    const byColor = Fruits.groupBy("color");
+    expect(byColor.yellow.map((fruit) => fruit.key)).toEqual([
+      "lemon",
+      "banana",
+    ]);
+    const red: readonly { key: "apple" }[] = byColor.red;
+    expect(red).toEqual([Fruits.enum.apple]);
+    expect(Object.isFrozen(byColor)).toBe(true);
+    expect(Object.isFrozen(byColor.yellow)).toBe(true);
+
+    const NoTupleFactory = ButterKeyedEnum({
+      lemon: { color: "yellow" },
+      banana: { color: "yellow" },
+    });
+    expect(NoTupleFactory.groupBy("color").yellow.map((fruit) => fruit.key)).toEqual([
+      "lemon",
+      "banana",
+    ]);
+  });
+
+  it("should group by values that are names of prototype properties", () => {
+    const Methods = ButterKeyedEnum({
+      create: { kind: "constructor" },
+      render: { kind: "toString" },
+      extend: { kind: "__proto__" },
+      inherit: { kind: "__proto__" },
+    });
+    const byKind = Methods.groupBy("kind");
+    expect(Object.keys(byKind)).toEqual(["constructor", "toString", "__proto__"]);
+    expect(byKind.constructor).toEqual([Methods.enum.create]);
+    expect(byKind.toString).toEqual([Methods.enum.render]);
+    expect(byKind.__proto__.map((method) => method.key)).toEqual([
+      "extend",
+      "inherit",
+    ]);
+  });
+
+  it("should navigate keys in tuple order", () => {
+    const index: 2 = Fruits.indexOf("banana");
+    expect(index).toBe(2);
+    expect(Fruits.compare("lemon", "banana")).toBe(-1);
+    expect(Fruits.isAfter("banana", "apple")).toBe(true);
+
+    const next: "banana" = Fruits.next("lemon");
+    expect(next).toBe("banana");
+    expect(Fruits.next("banana")).toBeUndefined();
+    expect(Fruits.next("banana", { wrap: true })).toBe("apple");
+    const prev: "apple" = Fruits.prev("lemon");
+    expect(prev).toBe("apple");
+
+    const range: readonly ["lemon", "banana"] = Fruits.range("lemon", "banana");
+    expect(range).toEqual(["lemon", "banana"]);
+    expect(Slugs.range("lemon", "banana")).toEqual(["lemon", "banana"]);
+    expect(Fruits.clamp("apple", "lemon", "banana")).toBe("lemon");
+  });
+
+  it("should require a tupleFactory for ordinal navigation", () => {
+    const NoTupleFactory = ButterKeyedEnum({ apple: {}, banana: {} });
+    expect(() => NoTupleFactory.next("apple" as never)).toThrow(
+      "ButterKeyedEnum has no tuple. Provide tupleFactory if you want ordinal navigation, and ensure it's not empty"
+    );
+  });
+
+  it("should create records in tuple order", () => {
+    const sweetness: {
+      readonly apple: number;
+      readonly banana: number;
+      readonly lemon: number;
+    } = Fruits.record((fruit, key) => (key === "lemon" ? 0 : fruit.sweetness));
+    expect(sweetness).toEqual({ apple: 7, lemon: 0, banana: 8 });
+    expect(Object.keys(sweetness)).toEqual(["apple", "lemon", "banana"]);
+    expect(Object.isFrozen(sweetness)).toBe(true);
+
+    const emojis = Fruits.recordOf({ banana: "🍌", apple: "🍎", lemon: "🍋" });
+    expect(Object.keys(emojis)).toEqual(["apple", "lemon", "banana"]);
+    // @ts-expect-error - lemon is missing
+    expect(() => Fruits.recordOf({ apple: "🍎", banana: "🍌" })).toThrow(
+      ButterEnumsDefinitionError
+    );
+  });
+
+  it("should create sets of keys", () => {
+    const yellow = Fruits.setOf(
+      Fruits.values.filter((fruit) => fruit.color === "yellow").map((fruit) => fruit.key)
+    );
+    expect(yellow.toArray()).toEqual(["lemon", "banana"]);
+    expect(yellow.complement().toArray()).toEqual(["apple"]);
+    // @ts-expect-error - not a fruit
+    expect(() => yellow.add("cherry")).toThrow(ButterEnumsAssertionError);
+
+    const Unordered = ButterKeyedEnum({ b: {}, a: {} });
+    expect(Unordered.setOf(["a", "b"]).toArray()).toEqual(["b", "a"]);
+    expect(Unordered.record((_, key) => key)).toEqual({ b: "b", a: "a" });
+  });
+
+  describe("iteration and queries", () => {
+    it("should iterate over the values in tuple order", () => {
+      expect([...Fruits].map((fruit) => fruit.key)).toEqual([
+        "apple",
+        "lemon",
+        "banana",
+      ]);
+      const Unordered = ButterKeyedEnum({ b: {}, a: {} });
+      expect(Array.from(Unordered, (value) => value.key)).toEqual(["b", "a"]);
+    });
+
+    it("should pair keys with values in entries()", () => {
+      const entries = Fruits.entries();
+      expect(entries.map(([key]) => key)).toEqual(["apple", "lemon", "banana"]);
+      expect(entries[0]).toEqual(["apple", Fruits.enum.apple]);
+      expect(Object.isFrozen(entries)).toBe(true);
+    });
+
+    it("should pass the key to every callback", () => {
+      const visited: string[] = [];
+      Fruits.forEach((fruit, key, enumObject) => {
+        expect(enumObject[key]).toBe(fruit);
+        visited.push(key);
+      });
+      expect(visited).toEqual(["apple", "lemon", "banana"]);
+      expect(Fruits.map((fruit, key) => `${key}: ${fruit.name}`)).toEqual([
+        "apple: Apple",
+        "lemon: Lemon",
+        "banana: Banana",
+      ]);
+      expect(Fruits.find((_, key) => key === "lemon")).toBe(Fruits.enum.lemon);
+      expect(Fruits.some((_, key) => key === "banana")).toBe(true);
+      expect(Fruits.every((fruit, key) => fruit.key === key)).toBe(true);
+      expect(Fruits.every((fruit) => fruit.sweetness > 5)).toBe(false);
+    });
+
+    it("should filter with a narrowing predicate", () => {
+      const sweet = Fruits.filter((fruit) => fruit.sweetness > 5);
+      expect(sweet.map((fruit) => fruit.key)).toEqual(["apple", "banana"]);
+
+      const yellow = Fruits.filter(
+        (fruit): fruit is typeof Fruits.enum.lemon | typeof Fruits.enum.banana =>
+          fruit.color === "yellow"
+      );
+      const colors: "yellow"[] = yellow.map((fruit) => fruit.color);
+      expect(colors).toEqual(["yellow", "yellow"]);
+    });
+
+    it("should narrow the values matching a query with where()", () => {
+      const yellow = Fruits.where({ color: "yellow" });
+      expect(yellow).toEqual([Fruits.enum.lemon, Fruits.enum.banana]);
+      const keys: ("lemon" | "banana")[] = yellow.map((fruit) => fruit.key);
+      expect(keys).toEqual(["lemon", "banana"]);
+
+      expect(Fruits.where({ color: "yellow", sweetness: 8 })).toEqual([
+        Fruits.enum.banana,
+      ]);
+      expect(Fruits.where({})).toHaveLength(3);
+      // @ts-expect-error - no fruit is purple
+      expect(Fruits.where({ color: "purple" })).toEqual([]);
+    });
+
+    it("should narrow values with wide metadata by the query", () => {
+      const Plans = ButterKeyedEnum({
+        free: { price: 0 as number },
+        pro: { price: 9 as number },
+      });
+      const free = Plans.where({ price: 0 });
+      expect(free).toEqual([Plans.enum.free]);
+      const prices: 0[] = free.map((plan) => plan.price);
+      expect(prices).toEqual([0]);
+    });
+  });
+
+  describe("composition", () => {
+    it("should pick and omit keys, keeping the tuple order", () => {
+      const picked = Fruits.pick(["banana", "apple"]);
+      expect(picked.keys).toEqual(["apple", "banana"]);
+      expect(picked.orderedKeys).toEqual(["apple", "banana"]);
+      const orderedKeys: readonly ["apple", "banana"] = picked.orderedKeys;
+      expect(orderedKeys).toHaveLength(2);
+      expect(picked.enum.apple).toEqual(Fruits.enum.apple);
+      // @ts-expect-error - lemon was not picked
+      expect(picked.enum.lemon).toBeUndefined();
+
+      const omitted = Fruits.omit(["apple"]);
+      expect(omitted.orderedKeys).toEqual(["lemon", "banana"]);
+      // @ts-expect-error - cherry is not a key
+      expect(() => Fruits.omit(["cherry"])).toThrow(ButterEnumsAssertionError);
+    });
+
+    it("should keep the keyName", () => {
+      const Colors = ButterKeyedEnum(
+        { red: { hex: "#f00" }, green: { hex: "#0f0" } },
+        { keyName: "id" }
+      );
+      const red = Colors.pick(["red"]);
+      expect(red.keyName).toBe("id");
+      expect(red.enum.red).toEqual({ hex: "#f00", id: "red" });
+      expect(red.hasTuple).toBe(false);
+    });
+
+    it("should extend with new entries appended to the tuple", () => {
+      const extended = Fruits.extend({
+        cherry: { name: "Cherry", color: "red", sweetness: 6 },
+      });
+      expect(extended.enum.cherry).toEqual({
+        name: "Cherry",
+        color: "red",
+        sweetness: 6,
+        key: "cherry",
+      });
+      expect(extended.orderedKeys).toEqual(["apple", "lemon", "banana", "cherry"]);
+      expect(extended.isValue(Fruits.enum.apple)).toBe(true);
+    });
+
+    it("should reject colliding keys unless overriding", () => {
+      expect(() =>
+        // @ts-expect-error - apple already exists
+        Fruits.extend({ apple: { name: "Green apple", color: "green", sweetness: 5 } })
+      ).toThrow(ButterEnumsDefinitionError);
+
+      const overridden = Fruits.extend(
+        { apple: { name: "Green apple", color: "green", sweetness: 5 } },
+        { override: true }
+      );
+      expect(overridden.enum.apple.color).toBe("green");
+      expect(overridden.orderedKeys).toEqual(["apple", "lemon", "banana"]);
+    });
+
+    it("should filter with a narrowing predicate", () => {
+      const yellow = Fruits.filterBy(
+        (fruit): fruit is Extract<typeof fruit, { color: "yellow" }> =>
+          fruit.color === "yellow"
+      );
+      const keys: readonly ("banana" | "lemon")[] = yellow.keys;
+      expect(keys).toEqual(["lemon", "banana"]);
+      expect(yellow.orderedKeys).toEqual(["lemon", "banana"]);
+      expect(Fruits.filterBy((fruit) => fruit.sweetness > 5).keys).toEqual([
+        "apple",
+        "banana",
+      ]);
+    });
+  });
+
+  describe("aliases and deprecated keys", () => {
+    const accesses: unknown[] = [];
+    const Statuses = ButterKeyedEnum(
+      {
+        active: { label: "Active" },
+        cancelled: { label: "Cancelled" },
+        paused: { label: "Paused" },
+      },
+      {
+        name: "Statuses",
+        aliases: { canceled: "cancelled", suspended: "paused" },
+        deprecated: ["paused"],
+        onDeprecatedAccess: (access) => accesses.push(access),
+      }
+    );
+
+    it("should resolve aliases in get, parse and normalize", () => {
+      expect(Statuses.get("canceled")).toBe(Statuses.enum.cancelled);
+      expect(Statuses.parse("canceled")).toBe(Statuses.enum.cancelled);
+      const normalized: "cancelled" = Statuses.normalize("canceled");
+      expect(normalized).toBe("cancelled");
+      expect(Statuses.get("cancel")).toBeUndefined();
+      const schema = Statuses.toStandardSchema();
+      expect(schema["~standard"].validate("canceled")).toEqual({
+        value: "cancelled",
+      });
+    });
+
+    it("should exclude aliases from keys", () => {
+      expect(Statuses.keys).toEqual(["active", "cancelled", "paused"]);
+      expect(Statuses.isKey("canceled")).toBe(false);
+      expect(Statuses.deprecated).toEqual(["paused"]);
+    });
+
+    it("should report deprecated access", () => {
+      accesses.length = 0;
+      Statuses.get("suspended");
+      Statuses.normalize("paused");
+      Statuses.get("active");
+      expect(accesses).toEqual([
+        { input: "suspended", key: "paused", alias: true },
+        { input: "paused", key: "paused", alias: false },
+      ]);
+    });
+
+    it("should reject aliases that collide with keys", () => {
+      try {
+        ButterKeyedEnum(
+          { active: {}, cancelled: {} },
+          // @ts-expect-error - active is already a key
+          { aliases: { active: "cancelled" } }
+        );
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ButterEnumsDefinitionError);
+        expect((error as ButterEnumsDefinitionError).code).toBe("INVALID_ALIAS");
+      }
+      expect(() =>
+        // @ts-expect-error - gone is not a key
+        ButterKeyedEnum({ active: {} }, { deprecated: ["gone"] })
+      ).toThrow('ButterKeyedEnum deprecates "gone", which is not a key');
+    });
+
+    it("should keep the aliases and deprecated keys of the remaining keys in derived enums", () => {
+      const Cancellable = Statuses.pick(["active", "cancelled"]);
+      const aliases: Readonly<{ canceled: "cancelled" }> = Cancellable.aliases;
+      expect(aliases).toEqual({ canceled: "cancelled" });
+      expect(Cancellable.deprecated).toEqual([]);
+      expect(Cancellable.normalize("canceled")).toBe("cancelled");
+
+      const Pausable = Statuses.omit(["cancelled"]);
+      expect(Pausable.aliases).toEqual({ suspended: "paused" });
+      expect(Pausable.deprecated).toEqual(["paused"]);
+      expect(Pausable.get("canceled")).toBeUndefined();
+      accesses.length = 0;
+      expect(Pausable.parse("suspended")).toBe(Pausable.enum.paused);
+      expect(accesses).toEqual([
+        { input: "suspended", key: "paused", alias: true },
+      ]);
+
+      const Extended = Statuses.extend({ canceled: { label: "Canceled" } });
+      expect(Extended.aliases).toEqual({ suspended: "paused" });
+      expect(Extended.get("canceled")?.label).toBe("Canceled");
+      expect(
+        Statuses.filterBy((status) => status.key !== "paused").aliases
+      ).toEqual({ canceled: "cancelled" });
+    });
+  });
+
+  describe("options", () => {
+    const Products = ButterKeyedEnum(
+      {
+        apple: { name: "Apple", sku: 100, aisle: "fruit", inStock: true },
+        carrot: { name: "Carrot", sku: 200, aisle: "vegetable", inStock: false },
+        banana: { name: "Banana", sku: 300, aisle: "fruit", inStock: true },
+      },
+      {
+        tupleFactory: (products) => [
+          products.banana,
+          products.carrot,
+          products.apple,
+        ],
+      }
+    );
+
+    it("should create options in tuple order", () => {
+      const options = Products.toOptions({ label: "name" });
+      expect(options).toEqual([
+        { label: "Banana", value: "banana", disabled: false },
+        { label: "Carrot", value: "carrot", disabled: false },
+        { label: "Apple", value: "apple", disabled: false },
+      ]);
+      const value: "apple" | "banana" | "carrot" = options[0]!.value;
+      expect(value).toBe("banana");
+      expect(Object.isFrozen(options)).toBe(true);
+    });
+
+    it("should use properties or functions for values, labels and disabled states", () => {
+      const options = Products.toOptions({
+        label: (product) => `${product.name} (${product.sku})`,
+        value: "sku",
+        disabled: (product) => !product.inStock,
+        sort: "label",
+      });
+      expect(options).toEqual([
+        { label: "Apple (100)", value: 100, disabled: false },
+        { label: "Banana (300)", value: 300, disabled: false },
+        { label: "Carrot (200)", value: 200, disabled: true },
+      ]);
+      const value: 100 | 200 | 300 = options[0]!.value;
+      expect(value).toBe(100);
+    });
+
+    it("should group options", () => {
+      const groups = Products.toOptions({
+        label: "name",
+        group: "aisle",
+        sort: "label",
+      });
+      expect(groups).toEqual([
+        {
+          group: "fruit",
+          options: [
+            { label: "Apple", value: "apple", disabled: false },
+            { label: "Banana", value: "banana", disabled: false },
+          ],
+        },
+        {
+          group: "vegetable",
+          options: [{ label: "Carrot", value: "carrot", disabled: false }],
+        },
+      ]);
+      const group: "fruit" | "vegetable" = groups[0]!.group;
+      expect(group).toBe("fruit");
+      expect(Object.isFrozen(groups[0]!.options)).toBe(true);
+    });
+
+    it("should round-trip option values", () => {
+      expect(Products.fromOption("apple")).toBe(Products.enum.apple);
+      expect(Products.fromOption(200, { value: "sku" })).toBe(
+        Products.enum.carrot
+      );
+      expect(() => Products.fromOption(400, { value: "sku" })).toThrow(
+        "Expected a value of ButterKeyedEnum, but received 400"
+      );
+      expect(() => Products.fromOption("fruit", { value: "aisle" })).toThrow(
+        ButterEnumsDefinitionError
+      );
+      // @ts-expect-error - not a property
+      Products.toOptions({ label: "title" });
+    });
+  });
+});
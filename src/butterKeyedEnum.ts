@@ -1,5 +1,47 @@
-import deepFreeze from "deep-freeze-es6";
+import {
+  ButterEnumsAliasOptions,
+  deriveAliasOptions,
+  makeAliasResolver,
+  SurvivingAliases,
+} from "./shared/aliases";
+import { makeCodecMethods } from "./shared/codec";
+import { makeCollectionMethods } from "./shared/collections";
+import {
+  assertNoCollisions,
+  ButterEnumsExtendOptions,
+  FilterTuple,
+  MergeDefinitions,
+  NoCollisions,
+  stripKeyName,
+} from "./shared/composition";
+import { isDeepEqual } from "./shared/deep-equal";
 import { ButterEnumsErrorMessage } from "./shared/error-message";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  ButterEnumsParseResult,
+  describeInput,
+} from "./shared/errors";
+import { extendEnum } from "./shared/extend";
+import { ButterEnumsFreezeMode, freezeEnum } from "./shared/freeze";
+import { AnyButterKeyedEnum, orderedKeysOf } from "./shared/introspect";
+import {
+  ButterEnumOption,
+  ButterEnumOptionGroup,
+  ButterEnumOptionSort,
+  groupOptions,
+  sortOptions,
+} from "./shared/options";
+import { makeOrdinalMethods } from "./shared/ordinal";
+import { ButterEnumCallback, makeQueryMethods } from "./shared/query";
+import { makeStandardSchema, StandardSchemaV1 } from "./shared/standard-schema";
+import { suggestKeys } from "./shared/suggest";
+import {
+  ButterEnumsValidateMode,
+  shouldValidate,
+  validateKeyName,
+  validateTupleValues,
+} from "./shared/validate";
 
 /**
  * Butter Keyed Enum
@@ -31,6 +73,12 @@ import { ButterEnumsErrorMessage } from "./shared/error-message";
  * @param {T} enumObject - The original object representing the enum-like mapping.
  * @param {Object} options - Configuration options.
  * @param {KeyName} [options.keyName="key"] - The name of the key to inject into each value.
+ * @param {string} [options.name="ButterKeyedEnum"] - The name of the enum, used in error messages.
+ * @param {TAliases} [options.aliases] - Legacy names that resolve to a key, e.g. `{ canceled: 'cancelled' }`.
+ * @param {(keyof T)[]} [options.deprecated] - Keys that are still valid, but should no longer be used.
+ * @param {Function} [options.onDeprecatedAccess] - Called when get, parse or normalize resolves an alias or a deprecated key.
+ * @param {"always" | "dev" | "never"} [options.validate="always"] - When to check the keyName and the tupleFactory at runtime, on top of the compile time checks.
+ * @param {"deep" | "shallow" | "none" | "dev"} [options.freeze="deep"] - How much of the enum is frozen at runtime. The types are readonly in every mode.
  * @param {(enumObject: Readonly<HoistKeyToInner<T, KeyName>>) => TTuple} options.tupleFactory - A factory function
  *   that takes the modified enum object with keys hoisted and returns a tuple. It must include all keys from `enumObject`.
  *
@@ -45,72 +93,196 @@ import { ButterEnumsErrorMessage } from "./shared/error-message";
  * @returns {void} This function does not return anything directly, but can be used to enforce compile-time constraints
  *   and build strongly typed enums using TypeScript's type system.
  *
- * @throws {TypeError} If any object in `enumObject` already contains the `keyName` property, it will result in a type error.
- * @throws {Error} If the `tupleFactory` does not return a tuple that includes all keys, a compile-time type error will occur.
+ * @throws {ButterEnumsDefinitionError} If any object in `enumObject` already contains the `keyName` property,
+ *   or the `tupleFactory` omits, duplicates or invents a value, unless `validate` turns the checks off.
+ *   Both are also compile-time type errors.
  */
 export function ButterKeyedEnum<
   KeyName extends string = "key",
-  const T extends {
-    [K in keyof T]: KeyName extends keyof T[K]
-      ? // this is a way to show the error on [keyName] in the
-        {
-          [K2 in keyof T[K]]: K2 extends KeyName
-            ? {
-                __error__: "You must not include the keyName in the inner objects";
-                value: never;
-              }
-            : any;
-        } & Record<string, any>
-      : Record<string, any>;
-  } = {
+  const T extends ButterKeyedEnumDefinition<T, KeyName> = {
     [key: string]: any;
   },
-  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = []
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = [],
+  const TAliases extends { [alias: string]: keyof T } = {}
+>(
+  enumObject: T,
+  options?: ButterKeyedEnumOptions<KeyName, T, TTuple, TAliases>
+): ButterKeyedEnumInstance<KeyName, T, TTuple, TAliases> {
+  const base = createButterKeyedEnum<KeyName, T, TTuple, TAliases>(
+    enumObject,
+    options
+  );
+  const enumName = options?.name ?? "ButterKeyedEnum";
+  const orderedKeys = () => orderedKeysOf(base as unknown as AnyButterKeyedEnum);
+
+  /**
+   * Creates a keyed enum with the same keyName from entries,
+   * with a tuple in the order of the entries when this enum has one,
+   * and the aliases and deprecated keys that lead to one of the entries
+   */
+  function compose(entries: [string, unknown][], name = enumName): any {
+    return ButterKeyedEnum(
+      Object.fromEntries(
+        entries.map(([key, value]) => [key, stripKeyName(value, base.keyName)])
+      ) as any,
+      {
+        keyName: base.keyName,
+        name,
+        validate: options?.validate,
+        freeze: options?.freeze,
+        ...deriveAliasOptions(options, entries.map(([key]) => key)),
+        tupleFactory:
+          base.hasTuple && entries.length > 0
+            ? (enumObject: any) => entries.map(([key]) => enumObject[key])
+            : undefined,
+      } as any
+    );
+  }
+
+  function pick(keys: readonly PropertyKey[], options?: { name?: string }) {
+    keys.forEach(base.assertKey as (key: unknown) => unknown);
+    return compose(
+      orderedKeys()
+        .filter((key) => keys.includes(key))
+        .map((key) => [key, base.enum[key as keyof T]]),
+      options?.name
+    );
+  }
+
+  const composition: ButterKeyedEnumComposition<KeyName, T, TTuple, TAliases> = {
+    pick,
+    omit(keys: readonly PropertyKey[], options?: { name?: string }) {
+      keys.forEach(base.assertKey as (key: unknown) => unknown);
+      return pick(
+        orderedKeys().filter((key) => !keys.includes(key)),
+        options
+      );
+    },
+    extend(
+      extension: Record<string, unknown>,
+      options?: ButterEnumsExtendOptions
+    ) {
+      const extensionKeys = Object.keys(extension);
+      assertNoCollisions(
+        enumName,
+        orderedKeys(),
+        extensionKeys,
+        options?.override
+      );
+      return compose(
+        [
+          ...orderedKeys().map((key): [string, unknown] => [
+            key,
+            Object.prototype.hasOwnProperty.call(extension, key)
+              ? extension[key]
+              : base.enum[key as keyof T],
+          ]),
+          ...extensionKeys
+            .filter((key) => !base.isKey(key))
+            .map((key): [string, unknown] => [key, extension[key]]),
+        ],
+        options?.name
+      );
+    },
+    filterBy(
+      predicate: (value: any) => boolean,
+      options?: { name?: string }
+    ) {
+      return pick(
+        orderedKeys().filter((key) => predicate(base.enum[key as keyof T])),
+        options
+      );
+    },
+  };
+
+  return extendEnum(base, composition) as unknown as ButterKeyedEnumInstance<
+    KeyName,
+    T,
+    TTuple,
+    TAliases
+  >;
+}
+
+/**
+ * Creates every member of a keyed enum except the composition methods,
+ * which return new enums and so need the named ButterKeyedEnumInstance type
+ */
+function createButterKeyedEnum<
+  KeyName extends string,
+  T,
+  TTuple extends readonly any[],
+  TAliases = {},
 >(
   enumObject: T,
   options?: {
     keyName?: KeyName;
-    /**
-     * A factory function that takes the modified enum object with keys hoisted and returns a tuple.
-     * It must include all keys from `enumObject`.
-     *
-     * @param enumObject The enum object with keys hoisted into each value
-     * @returns A tuple of values from the enum object
-     *
-     * This is optional, but if you want tuple support or ordered keys, you must provide it.
-     * Typescript cannot convert from a union to a tuple with
-     * * Guaranteed order
-     * * Better performance than O(n^2)
-     * See https://stackoverflow.com/questions/55127004/how-to-transform-union-type-to-tuple-type
-     *
-     * So, we have to provide a tuple factory. It constrains the tuple to make sure you're not missing any values.
-     * Making our typescript compiler happy.
-     */
-    tupleFactory?: (
-      enumObject: Readonly<HoistKeyToInner<T, KeyName>>
-    ) => IsTypeEqual<
-      NonNullable<TTuple>[number][KeyName],
-      keyof T
-    > extends true
-      ? NonNullable<TTuple>
-      : ButterEnumsErrorMessage<"You must include all keys in the tuple">;
-  }
+    name?: string;
+    tupleFactory?: (enumObject: any) => unknown;
+    validate?: ButterEnumsValidateMode;
+    freeze?: ButterEnumsFreezeMode;
+  } & ButterEnumsAliasOptions<keyof T, any>
 ) {
-  const $enum = deepFreeze(
+  const keyName = (options?.keyName ?? "key") as KeyName;
+  const enumName = options?.name ?? "ButterKeyedEnum";
+  const validate = shouldValidate(options?.validate);
+  if (validate) {
+    validateKeyName(enumName, enumObject as object, keyName);
+  }
+  const $enum = freezeEnum(
     Object.fromEntries(
-      Object.entries(enumObject).map(([key, value]: [string, any]) => [
+      Object.entries(enumObject as object).map(([key, value]: [string, any]) => [
         key,
-        { ...(value as Record<string, any>), [options?.keyName ?? "key"]: key },
+        { ...(value as Record<string, any>), [keyName]: key },
       ])
-    )
+    ),
+    options?.freeze,
+    1
   ) satisfies {
     [k: string]: {
       [k: string]: any;
     };
   } as Readonly<HoistKeyToInner<T, KeyName>>;
   const $tuple = options?.tupleFactory
-    ? deepFreeze(options.tupleFactory($enum) as TTuple)
+    ? freezeEnum(options.tupleFactory($enum) as TTuple, options.freeze)
     : ([] as never);
+  if (validate && options?.tupleFactory) {
+    validateTupleValues(enumName, $enum, $tuple);
+  }
+  // Derived once, since the enum is frozen. The Map keeps prototype keys like "constructor" out of lookups
+  const $lookup = new Map<string, TEnum[keyof TEnum]>(Object.entries($enum));
+  const $keys = Object.freeze([...$lookup.keys()]) as readonly (keyof TEnum)[];
+  const $values = Object.freeze([...$lookup.values()]);
+  const $orderedValues: readonly TEnum[keyof TEnum][] =
+    $tuple.length > 0 ? $tuple : $values;
+  const $orderedKeys = Object.freeze(
+    $orderedValues.map((value) => value[keyName])
+  ) as readonly (keyof TEnum & string)[];
+  const aliasResolver = makeAliasResolver(enumName, isKey, options);
+
+  /**
+   * Finds the first value that matches a predicate, in insertion order, narrowing it when it's a type predicate
+   *
+   * @param predicate A function that tests each value, with its key and the enum object
+   * @returns {TEnum[keyof TEnum] | undefined} The first value that matches the predicate or undefined if no match is found
+   */
+  function find<TMatch extends TEnum[keyof TEnum]>(
+    predicate: (
+      value: TEnum[keyof TEnum],
+      key: keyof TEnum,
+      enumObject: TEnum
+    ) => value is TMatch
+  ): TMatch | undefined;
+  function find(
+    predicate: ButterEnumCallback<TEnum, unknown>
+  ): TEnum[keyof TEnum] | undefined;
+  function find(
+    predicate: ButterEnumCallback<TEnum, unknown>
+  ): TEnum[keyof TEnum] | undefined {
+    const key = $keys.find((key) =>
+      predicate($lookup.get(key as string)!, key, $enum)
+    );
+    return key === undefined ? undefined : $lookup.get(key as string);
+  }
 
   /**
    * Gets multiple values by keys
@@ -121,51 +293,368 @@ export function ButterKeyedEnum<
   function getMany(keys: (keyof TEnum)[]): TEnum[keyof TEnum][];
   function getMany(keys: string[]): (TEnum[keyof TEnum] | undefined)[];
   function getMany(keys: (keyof TEnum | (string & {}))[]) {
-    return keys.map((key) => $enum[key as keyof TEnum]);
+    return keys.map((key) => $lookup.get(key as string));
+  }
+
+  /**
+   * Checks if the input is a key of the enum
+   *
+   * @param key The untrusted input to check
+   * @returns {boolean} True if the input is a key of the enum
+   */
+  function isKey(key: unknown): key is keyof TEnum {
+    return typeof key === "string" && $lookup.has(key);
+  }
+
+  /**
+   * Checks if the input is structurally equal to one of the enum values
+   *
+   * @param value The untrusted input to check
+   * @returns {boolean} True if the input is equal to the value of the key it claims
+   */
+  function isValue(value: unknown): value is TEnum[keyof TEnum] {
+    if (typeof value !== "object" || value === null) {
+      return false;
+    }
+    const key = (value as Record<string, unknown>)[keyName];
+    return isKey(key) && isDeepEqual(value, $lookup.get(key as string));
+  }
+
+  /**
+   * Parses the input into the value of the key it names
+   *
+   * @param key The untrusted input to parse
+   * @returns {ButterEnumsParseResult<TEnum[keyof TEnum]>} The value on success, or an error with "did you mean" suggestions
+   */
+  function safeParse(
+    key: unknown
+  ): ButterEnumsParseResult<TEnum[keyof TEnum]> {
+    const resolved = aliasResolver.resolve(key);
+    if (resolved !== undefined) {
+      return { success: true, value: $lookup.get(resolved as string)! };
+    }
+    return {
+      success: false,
+      error: new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        key,
+        suggestKeys(key, $keys as readonly string[])
+      ),
+    };
+  }
+
+  /**
+   * Creates a Standard Schema (https://standardschema.dev) view of the enum,
+   * so any compliant validator can validate keys of the enum directly.
+   *
+   * @example
+   * ```typescript
+   * const schema = colorsEnum.toStandardSchema({ output: 'value' })
+   * schema['~standard'].validate('green') // { value: { emoji: '🟩', hex: '#00FF00', key: 'green' } }
+   * ```
+   *
+   * @param options Configuration options
+   * @param options.output Whether the schema outputs the key (default) or the value for the key
+   * @returns {StandardSchemaV1} A schema that accepts a key of the enum
+   */
+  function toStandardSchema(options?: {
+    output?: "key";
+  }): StandardSchemaV1<keyof TEnum, keyof TEnum>;
+  function toStandardSchema(options: {
+    output: "value";
+  }): StandardSchemaV1<keyof TEnum, TEnum[keyof TEnum]>;
+  function toStandardSchema(options?: { output?: "key" | "value" }) {
+    if (options?.output === "value") {
+      return makeStandardSchema(safeParse);
+    }
+    return makeStandardSchema<keyof TEnum, keyof TEnum>((key) => {
+      const result = safeParse(key);
+      return result.success
+        ? { success: true, value: result.value[keyName] as keyof TEnum }
+        : result;
+    });
+  }
+
+  /**
+   * Resolves a key or alias to its canonical key
+   *
+   * @example
+   * ```typescript
+   * Statuses.normalize('canceled') // 'cancelled'
+   * Statuses.normalize('cancelled') // 'cancelled'
+   * ```
+   *
+   * @param input The untrusted input to normalize
+   * @returns {keyof TEnum} The canonical key
+   * @throws {ButterEnumsAssertionError} If the input is neither a key nor an alias
+   */
+  function normalize<TInput extends keyof TEnum | keyof TAliases>(
+    input: TInput
+  ): TInput extends keyof TAliases ? TAliases[TInput] : TInput;
+  function normalize(input: unknown): keyof TEnum;
+  function normalize(input: unknown): unknown {
+    const result = safeParse(input);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value[keyName];
+  }
+
+  /**
+   * Creates a reverse lookup from the values of a metadata property to the enum values.
+   *
+   * The values of the property must be unique across entries, which is checked at the type level
+   * when the values are literals, and always at runtime.
+   * The lookup is built once per property, so calling indexBy again is cheap.
+   *
+   * @example
+   * ```typescript
+   * const byHex = colorsEnum.indexBy('hex')
+   * byHex.get('#00FF00') // { emoji: '🟩', hex: '#00FF00', key: 'green' }
+   * byHex.get(untrustedHex) // { ... } | undefined
+   * ```
+   *
+   * @param property The property to index by
+   * @returns {ButterKeyedEnumIndex<TEnum[keyof TEnum], TProperty>} The frozen lookup
+   * @throws {ButterEnumsDefinitionError} If two entries have the same value for the property
+   */
+  function indexBy<TProperty extends keyof TEnum[keyof TEnum]>(
+    property: [DuplicatedKeys<TEnum, TProperty>] extends [never]
+      ? TProperty
+      : ButterEnumsErrorMessage<"The values of this property must be unique across entries, use groupBy instead">
+  ): ButterKeyedEnumIndex<TEnum[keyof TEnum], TProperty> {
+    const existing = indexes.get(property as PropertyKey);
+    if (existing) {
+      return existing;
+    }
+    const lookup = new Map<unknown, TEnum[keyof TEnum]>();
+    for (const value of $orderedValues) {
+      const indexValue = value[property as TProperty];
+      const duplicate = lookup.get(indexValue);
+      if (duplicate) {
+        throw new ButterEnumsDefinitionError(
+          "DUPLICATE_VALUE",
+          enumName,
+          `${enumName} can't be indexed by ${String(property)}, because ${describeInput(indexValue)} is the value of both ${describeInput(duplicate[keyName])} and ${describeInput(value[keyName])}`
+        );
+      }
+      lookup.set(indexValue, value);
+    }
+    const index: ButterKeyedEnumIndex<TEnum[keyof TEnum], TProperty> =
+      Object.freeze({
+        property: property as TProperty,
+        get: (indexValue: unknown) => lookup.get(indexValue) as any,
+        has: (indexValue: unknown): indexValue is any =>
+          lookup.has(indexValue),
+        get size() {
+          return lookup.size;
+        },
+      });
+    indexes.set(property as PropertyKey, index);
+    return index;
   }
 
+  /**
+   * Converts the enum into options for a select input, in the order of the enum unless sorted.
+   * Passing `group` groups the options by a metadata property, in the order of their first option.
+   *
+   * @example
+   * ```typescript
+   * Fruits.toOptions({ label: 'name' })
+   * // [{ label: 'Apple', value: 'apple', disabled: false }, ...]
+   * Fruits.toOptions({ label: 'name', group: 'color', disabled: (fruit) => !fruit.inStock, sort: 'label' })
+   * // [{ group: 'red', options: [{ label: 'Apple', value: 'apple', disabled: false }] }, ...]
+   * ```
+   *
+   * @param options Configuration options
+   * @param options.label The property to use as the label, or a function that creates it
+   * @param options.value The property to use as the value. Defaults to the key
+   * @param options.group The property to group the options by
+   * @param options.disabled Whether the option for a value is disabled
+   * @param options.sort `"tuple"` (default), `"label"`, or a comparator of options
+   * @returns The frozen options, or option groups when grouping
+   */
+  function toOptions<
+    TValueProperty extends keyof TEnum[keyof TEnum] = KeyName &
+      keyof TEnum[keyof TEnum],
+  >(
+    options: ButterKeyedEnumToOptions<TEnum[keyof TEnum], TValueProperty> & {
+      group?: undefined;
+    }
+  ): readonly ButterEnumOption<TEnum[keyof TEnum][TValueProperty]>[];
+  function toOptions<
+    TGroupProperty extends keyof TEnum[keyof TEnum],
+    TValueProperty extends keyof TEnum[keyof TEnum] = KeyName &
+      keyof TEnum[keyof TEnum],
+  >(
+    options: ButterKeyedEnumToOptions<TEnum[keyof TEnum], TValueProperty> & {
+      group: TGroupProperty;
+    }
+  ): readonly ButterEnumOptionGroup<
+    TEnum[keyof TEnum][TGroupProperty],
+    TEnum[keyof TEnum][TValueProperty]
+  >[];
+  function toOptions(
+    options: ButterKeyedEnumToOptions<any, PropertyKey> & {
+      group?: PropertyKey;
+    }
+  ) {
+    const valueProperty = options.value ?? keyName;
+    const entries = new Map<ButterEnumOption<unknown>, any>();
+    for (const value of $orderedValues as any[]) {
+      entries.set(
+        {
+          label:
+            typeof options.label === "function"
+              ? options.label(value)
+              : String(value[options.label]),
+          value: value[valueProperty],
+          disabled: options.disabled?.(value) ?? false,
+        },
+        value
+      );
+    }
+    const sorted = sortOptions([...entries.keys()], options.sort);
+    const { group } = options;
+    return group === undefined
+      ? sorted
+      : groupOptions(sorted, (option) => entries.get(option)[group]);
+  }
+
+  /**
+   * Gets the value of the entry an option was created from, e.g. when a form is submitted
+   *
+   * @example
+   * ```typescript
+   * Fruits.fromOption(formData.get('fruit')) // { name: 'Apple', key: 'apple', ... }
+   * Fruits.fromOption(formData.get('fruit'), { value: 'sku' })
+   * ```
+   *
+   * @param optionValue The value of the option
+   * @param options Configuration options
+   * @param options.value The property the options used as their value. Defaults to the key
+   * @returns {TEnum[keyof TEnum]} The value of the entry
+   * @throws {ButterEnumsAssertionError} If no entry has the option value
+   * @throws {ButterEnumsDefinitionError} If the values of the property aren't unique
+   */
+  function fromOption(
+    optionValue: unknown,
+    options?: { value?: keyof TEnum[keyof TEnum] }
+  ): TEnum[keyof TEnum] {
+    const valueProperty = options?.value ?? keyName;
+    if (valueProperty === keyName) {
+      const result = safeParse(optionValue);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value;
+    }
+    const value = indexBy(valueProperty as never).get(optionValue);
+    if (value === undefined) {
+      throw new ButterEnumsAssertionError(enumName, "value", optionValue);
+    }
+    return value;
+  }
+
+  /**
+   * Resolves the key of a match input, which can either be a key or a value
+   */
+  function keyOfMatchInput(keyOrValue: unknown): keyof TEnum {
+    const key =
+      typeof keyOrValue === "object" && keyOrValue !== null
+        ? (keyOrValue as Record<string, unknown>)[keyName]
+        : keyOrValue;
+    if (!isKey(key)) {
+      throw new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        keyOrValue,
+        suggestKeys(key, $keys as readonly string[])
+      );
+    }
+    return key;
+  }
+
+  const indexes = new Map<PropertyKey, ButterKeyedEnumIndex<any, any>>();
+
   type TEnum = typeof $enum;
+  type TOrderedKeys = {
+    [TIndex in keyof TTuple]: TTuple[TIndex][KeyName];
+  };
+
+  /**
+   * Throws if the enum has no tuple to take its order from
+   */
+  function assertTuple(purpose: string) {
+    if ($tuple.length === 0) {
+      throw new ButterEnumsDefinitionError(
+        "MISSING_TUPLE_FACTORY",
+        enumName,
+        `${enumName} has no tuple. Provide tupleFactory if you want ${purpose}, and ensure it's not empty`
+      );
+    }
+  }
+  /**
+   * Asserts that the input is a key of the enum
+   *
+   * @example
+   * ```typescript
+   * const key = colorsEnum.assertKey(request.query.color) // 'green'
+   * ```
+   *
+   * @param key The untrusted input to check
+   * @returns {keyof TEnum} The input, narrowed to a key of the enum
+   * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+   */
+  function assertKey(key: unknown): keyof TEnum {
+    if (!isKey(key)) {
+      throw new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        key,
+        suggestKeys(key, $keys as readonly string[])
+      );
+    }
+    return key;
+  }
+
   return {
     /// TUPLE DEPENDENT
     ///
 
+    /**
+     * Whether a tupleFactory was provided, i.e. whether the tuple dependent features are available
+     *
+     * @type {TTuple extends [] ? false : true}
+     */
+    hasTuple: ($tuple.length > 0) as TTuple extends [] ? false : true,
+
     /**
      * An ordered array of enum values as specified by the tupleFactory function
      *
      * @type {TTuple} The tuple of enum values in the order defined by tupleFactory
+     * @throws {ButterEnumsDefinitionError} If tupleFactory was not provided
      */
     get tuple(): TTuple extends []
       ? ButterEnumsErrorMessage<"Provide tupleFactory if you want a tuple, and ensure it's not empty">
       : TTuple {
-      if ($tuple.length === 0) {
-        return {
-          __error__:
-            "Provide tupleFactory if you want a tuple, and ensure it's not empty",
-          value: undefined as never,
-        } as any;
-      }
+      assertTuple("a tuple");
       return $tuple as any;
     },
     /**
      * An ordered array of keys as specified by the tupleFactory function
      *
      * @type {TTuple extends [] ? ButterEnumsErrorMessage<"Provide tupleFactory if you want ordered keys, and ensure it's not empty"> : { [TIndex in keyof TTuple]: TTuple[TIndex][KeyName]; }} The ordered keys of the enum
+     * @throws {ButterEnumsDefinitionError} If tupleFactory was not provided
      */
     get orderedKeys(): TTuple extends []
       ? ButterEnumsErrorMessage<"Provide tupleFactory if you want ordered keys, and ensure it's not empty">
       : {
           [TIndex in keyof TTuple]: TTuple[TIndex][KeyName];
         } {
-      if ($tuple.length === 0) {
-        return {
-          __error__:
-            "Provide tupleFactory if you want ordered keys, and ensure it's not empty",
-          value: undefined as never,
-        } as any;
-      }
-      return $tuple.map(
-        (value: TTuple[number]) => value[options?.keyName ?? "key"]
-      ) as any
+      assertTuple("ordered keys");
+      return $orderedKeys as any;
     },
     /**
      * Maps a property of the tuple to an array of values
@@ -193,6 +682,7 @@ export function ButterKeyedEnum<
      *
      * @param property The property to map
      * @returns An array of values from the tuple
+     * @throws {ButterEnumsDefinitionError} If tupleFactory was not provided
      */
     getTupleValuesByProperty<TProperty extends keyof TTuple[number]>(
       property: TProperty
@@ -201,20 +691,49 @@ export function ButterKeyedEnum<
       : {
           [TIndex in keyof TTuple]: TTuple[TIndex][TProperty];
         } {
-      if ($tuple.length === 0) {
-        return {
-          __error__:
-            "Provide tupleFactory if you want a tuple, and ensure it's not empty",
-          value: undefined as never,
-        } as any;
-      }
+      assertTuple("a tuple");
       return $tuple.map(
         (value: TTuple[number]) => value[property]
       ) satisfies TTuple[number][TProperty][] as any;
     },
 
+    ...makeOrdinalMethods(
+      $orderedKeys as unknown as TOrderedKeys,
+      assertKey as (key: unknown) => TOrderedKeys[number],
+      () => assertTuple("ordinal navigation")
+    ),
+
+    ...makeCollectionMethods(
+      enumName,
+      () => $orderedKeys,
+      (key) => $lookup.get(key as string)!,
+      assertKey
+    ),
+
+    ...makeCodecMethods(
+      enumName,
+      () => $orderedKeys,
+      assertKey as (key: unknown) => keyof TEnum & string
+    ),
+
+    ...makeQueryMethods(
+      $enum,
+      $orderedKeys,
+      (key) => $lookup.get(key as string)!
+    ),
+
     /// NON-TUPLE DEPENDENT
 
+    /**
+     * Distinguishes keyed enums from tuple enums at runtime
+     */
+    kind: "keyed",
+    /**
+     * The name of the property the key is hoisted into
+     *
+     * @type {KeyName}
+     */
+    keyName,
     /**
      * The enum object
      *
@@ -222,51 +741,540 @@ export function ButterKeyedEnum<
      */
     enum: $enum,
     /**
-     * Gets a value by key
+     * The aliases, mapped to the keys they resolve to
+     *
+     * @type {Readonly<TAliases>}
+     */
+    aliases: aliasResolver.aliases as Readonly<TAliases>,
+    /**
+     * The deprecated keys
+     *
+     * @type {readonly (keyof TEnum)[]}
+     */
+    deprecated: aliasResolver.deprecated as readonly (keyof TEnum)[],
+    /**
+     * Checks if the input is a deprecated key
      *
-     * @param key The key to retrieve the value for
+     * @param key The untrusted input to check
+     * @returns {boolean} True if the input is a deprecated key
+     */
+    isDeprecated(key: unknown): key is keyof TEnum {
+      return aliasResolver.deprecated.includes(key as keyof T);
+    },
+    /**
+     * Gets a value by key or alias
+     *
+     * @param key The key or alias to retrieve the value for
      * @returns {TEnum[keyof TEnum] | undefined} The value for the given key or undefined if the key doesn't exist
      */
-    get(key: keyof TEnum | (string & {})): TEnum[keyof TEnum] | undefined {
-      return $enum[key as keyof TEnum];
+    get(
+      key: keyof TEnum | keyof TAliases | (string & {})
+    ): TEnum[keyof TEnum] | undefined {
+      const resolved = aliasResolver.resolve(key);
+      return resolved === undefined ? undefined : $lookup.get(resolved as string);
     },
     getMany,
+    indexBy,
+    /**
+     * Groups the enum values by the values of a metadata property, which don't have to be unique.
+     *
+     * Groups are in the tuple order when there is one, and in insertion order otherwise.
+     * The groups object has no prototype, so values like "constructor" or "__proto__" are plain groups.
+     *
+     * @example
+     * ```typescript
+     * const byColor = Fruits.groupBy('color')
+     * byColor.yellow // [{ name: 'Banana', ... }, { name: 'Lemon', ... }]
+     * ```
+     *
+     * @param property The property to group by, whose values must be strings or numbers
+     * @returns {ButterKeyedEnumGroups<TEnum[keyof TEnum], TProperty>} The frozen groups
+     */
+    groupBy<
+      TProperty extends {
+        [P in keyof TEnum[keyof TEnum]]: TEnum[keyof TEnum][P] extends
+          | string
+          | number
+          ? P
+          : never;
+      }[keyof TEnum[keyof TEnum]]
+    >(property: TProperty): ButterKeyedEnumGroups<TEnum[keyof TEnum], TProperty> {
+      const groups: Record<PropertyKey, TEnum[keyof TEnum][]> =
+        Object.create(null);
+      for (const value of $orderedValues) {
+        (groups[value[property] as PropertyKey] ??= []).push(value);
+      }
+      for (const group of Object.values(groups)) {
+        Object.freeze(group);
+      }
+      return Object.freeze(groups) as any;
+    },
     /**
      * All keys in the enum
      *
-     * @returns {(keyof TEnum)[]} All keys in the enum
+     * @returns {readonly (keyof TEnum)[]} All keys in the enum
      */
-    get keys(): (keyof TEnum)[] {
-      return Object.keys($enum) satisfies string[] as (keyof TEnum)[];
+    get keys(): readonly (keyof TEnum)[] {
+      return $keys as readonly (keyof TEnum)[];
     },
     /**
      * All values in the enum
      *
-     * @returns {TEnum[keyof TEnum][]} All values in the enum
+     * @returns {readonly TEnum[keyof TEnum][]} All values in the enum
      */
-    get values(): TEnum[keyof TEnum][] {
-      return Object.values($enum);
+    get values(): readonly TEnum[keyof TEnum][] {
+      return $values as readonly TEnum[keyof TEnum][];
     },
+    find,
     /**
-     * Finds a value by predicate
+     * Finds the values whose metadata matches every property of a query, narrowing them to the matching entries
+     *
+     * @example
+     * ```typescript
+     * Fruits.where({ color: 'yellow' }) // [{ name: 'Banana', ... }, { name: 'Lemon', ... }]
+     * ```
      *
-     * @param predicate A function that tests each value for a condition
-     * @returns {TEnum[keyof TEnum] | undefined} The first value that matches the predicate or undefined if no match is found
+     * @param query The properties to match, compared structurally
+     * @returns {ButterKeyedEnumWhere<TEnum[keyof TEnum], TQuery>[]} The matching values, in the order of the enum
      */
-    find(
-      predicate: (
-        value: TEnum[keyof TEnum],
-        key: keyof TEnum,
-        enumObject: TEnum
-      ) => boolean
-    ): TEnum[keyof TEnum] | undefined {
-      return Object.values($enum).find((value: any, key: any) =>
-        predicate(value, key, $enum)
-      ) as any;
+    where<const TQuery extends Partial<TEnum[keyof TEnum]>>(
+      query: TQuery
+    ): ButterKeyedEnumWhere<TEnum[keyof TEnum], TQuery>[] {
+      const properties = Object.entries(query);
+      return $orderedValues.filter((value) =>
+        properties.every(([property, expected]) =>
+          isDeepEqual((value as Record<string, unknown>)[property], expected)
+        )
+      ) as ButterKeyedEnumWhere<TEnum[keyof TEnum], TQuery>[];
+    },
+    toOptions,
+    fromOption,
+    isKey,
+    isValue,
+    assertKey,
+    /**
+     * Asserts that the input is structurally equal to one of the enum values
+     *
+     * @param value The untrusted input to check
+     * @returns {TEnum[keyof TEnum]} The input, narrowed to a value of the enum
+     * @throws {ButterEnumsAssertionError} If the input is not a value of the enum
+     */
+    assertValue(value: unknown): TEnum[keyof TEnum] {
+      if (!isValue(value)) {
+        throw new ButterEnumsAssertionError(enumName, "value", value);
+      }
+      return value;
+    },
+    /**
+     * Parses the input into the value of the key it names
+     *
+     * @example
+     * ```typescript
+     * colorsEnum.parse('green') // { emoji: '🟩', hex: '#00FF00', key: 'green' }
+     * colorsEnum.parse('Green')
+     * // ButterEnumsAssertionError: Expected a key of ButterKeyedEnum, but received "Green". Did you mean "green"?
+     * ```
+     *
+     * @param key The untrusted input to parse
+     * @returns {TEnum[keyof TEnum]} The value for the given key
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    parse(key: unknown): TEnum[keyof TEnum] {
+      const result = safeParse(key);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value;
+    },
+    safeParse,
+    normalize,
+    toStandardSchema,
+    /**
+     * Calls the handler for the key or value, like an exhaustive switch statement.
+     *
+     * It fails to compile if a handler is missing or if there is a handler for a key that doesn't exist.
+     *
+     * @example
+     * ```typescript
+     * const label = colorsEnum.match(color, {
+     *   green: (value) => `Go ${value.emoji}`,
+     *   red: (value) => `Stop ${value.emoji}`,
+     * })
+     * ```
+     *
+     * @param keyOrValue The key or value to match
+     * @param handlers A handler for every key, called with the value for that key
+     * @returns The result of the handler
+     * @throws {ButterEnumsAssertionError} If the input is not a key or value of the enum
+     */
+    match<
+      THandlers extends {
+        [K in keyof TEnum]: (value: TEnum[K]) => unknown;
+      }
+    >(
+      keyOrValue: keyof TEnum | TEnum[keyof TEnum],
+      handlers: THandlers & {
+        [K in Exclude<keyof THandlers, keyof TEnum>]: never;
+      }
+    ): ReturnType<THandlers[keyof TEnum]> {
+      const key = keyOfMatchInput(keyOrValue);
+      return (handlers[key] as (value: unknown) => any)($enum[key]);
+    },
+    /**
+     * Calls the handler for the key or value, falling back to the required `_` handler
+     *
+     * @example
+     * ```typescript
+     * const isGo = colorsEnum.matchPartial(color, {
+     *   green: () => true,
+     *   _: () => false,
+     * })
+     * ```
+     *
+     * @param keyOrValue The key or value to match
+     * @param handlers Handlers for some keys, and a `_` handler for the rest
+     * @returns The result of the handler
+     * @throws {ButterEnumsAssertionError} If the input is not a key or value of the enum
+     */
+    matchPartial<
+      THandlers extends {
+        [K in keyof TEnum]?: (value: TEnum[K]) => unknown;
+      } & {
+        _: (value: TEnum[keyof TEnum]) => unknown;
+      }
+    >(
+      keyOrValue: keyof TEnum | TEnum[keyof TEnum],
+      handlers: THandlers & {
+        [K in Exclude<keyof THandlers, keyof TEnum | "_">]: never;
+      }
+    ): ReturnType<NonNullable<THandlers[keyof THandlers]>> {
+      const key = keyOfMatchInput(keyOrValue);
+      const handler = Object.prototype.hasOwnProperty.call(handlers, key)
+        ? handlers[key]
+        : handlers._;
+      return (handler as (value: unknown) => any)($enum[key]);
     },
   } as const;
 }
 
+/**
+ * The definition of a keyed enum, whose inner objects must not include the keyName property
+ *
+ * @template T The enum-like object
+ * @template KeyName The name of the property to hoist the key into
+ */
+export type ButterKeyedEnumDefinition<T, KeyName extends string> = {
+  [K in keyof T]: KeyName extends keyof T[K]
+    ? // this is a way to show the error on [keyName] in the
+      {
+        [K2 in keyof T[K]]: K2 extends KeyName
+          ? {
+              __error__: "You must not include the keyName in the inner objects";
+              value: never;
+            }
+          : any;
+      } & Record<string, any>
+    : Record<string, any>;
+};
+
+/**
+ * The options of ButterKeyedEnum
+ *
+ * @template KeyName The name of the property to hoist the key into
+ * @template T The enum-like object
+ * @template TTuple The tuple returned by the tupleFactory
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export type ButterKeyedEnumOptions<
+  KeyName extends string,
+  T extends ButterKeyedEnumDefinition<T, KeyName>,
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [],
+  TAliases = {},
+> = ButterEnumsAliasOptions<keyof T, TAliases> & {
+  keyName?: KeyName;
+  /**
+   * The name of the enum, used in error messages
+   */
+  name?: string;
+  /**
+   * When to check at runtime that no inner object has the keyName property,
+   * and that the tupleFactory returns every value exactly once. Defaults to `"always"`
+   */
+  validate?: ButterEnumsValidateMode;
+  /**
+   * How much of the enum is frozen at runtime: `"deep"` (default), `"shallow"` to leave the metadata
+   * inside the entries mutable, `"none"`, or `"dev"` to skip freezing in production. The types are readonly in every mode
+   */
+  freeze?: ButterEnumsFreezeMode;
+  /**
+   * A factory function that takes the modified enum object with keys hoisted and returns a tuple.
+   * It must include all keys from `enumObject`.
+   *
+   * @param enumObject The enum object with keys hoisted into each value
+   * @returns A tuple of values from the enum object
+   *
+   * This is optional, but if you want tuple support or ordered keys, you must provide it.
+   * Typescript cannot convert from a union to a tuple with
+   * * Guaranteed order
+   * * Better performance than O(n^2)
+   * See https://stackoverflow.com/questions/55127004/how-to-transform-union-type-to-tuple-type
+   *
+   * So, we have to provide a tuple factory. It constrains the tuple to make sure you're not missing any values.
+   * Making our typescript compiler happy.
+   */
+  tupleFactory?: (
+    enumObject: Readonly<HoistKeyToInner<T, KeyName>>
+  ) => IsTypeEqual<
+    NonNullable<TTuple>[number][KeyName],
+    keyof T
+  > extends true
+    ? NonNullable<TTuple>
+    : ButterEnumsErrorMessage<"You must include all keys in the tuple">;
+};
+
+/**
+ * A keyed enum, as returned by ButterKeyedEnum
+ *
+ * @template KeyName The name of the property the key is hoisted into
+ * @template T The enum-like object
+ * @template TTuple The tuple returned by the tupleFactory
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export type ButterKeyedEnumInstance<
+  KeyName extends string,
+  T,
+  TTuple extends readonly any[],
+  TAliases = {},
+> = ReturnType<typeof createButterKeyedEnum<KeyName, T, TTuple, TAliases>> &
+  ButterKeyedEnumComposition<KeyName, T, TTuple, TAliases>;
+
+/**
+ * The methods of a keyed enum that create new keyed enums.
+ * The new enums keep the keyName, the tuple order when there is a tuple,
+ * and the aliases and deprecated keys that lead to one of their keys.
+ *
+ * @template KeyName The name of the property the key is hoisted into
+ * @template T The enum-like object
+ * @template TTuple The tuple returned by the tupleFactory
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export interface ButterKeyedEnumComposition<
+  KeyName extends string,
+  T,
+  TTuple extends readonly any[],
+  TAliases = {},
+> {
+  /**
+   * Creates an enum with only the given keys
+   *
+   * @example
+   * ```typescript
+   * const Citrus = Fruits.pick(['lemon', 'orange'])
+   * ```
+   *
+   * @param keys The keys to keep
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsAssertionError} If a key is not in the enum
+   */
+  pick<const K extends keyof T>(
+    keys: readonly K[],
+    options?: { name?: string }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    Pick<T, K>,
+    FilterTuple<TTuple, { [P in KeyName]: K }>,
+    SurvivingAliases<TAliases, K>
+  >;
+  /**
+   * Creates an enum without the given keys
+   *
+   * @example
+   * ```typescript
+   * const PublicStatuses = Statuses.omit(['archived'])
+   * ```
+   *
+   * @param keys The keys to remove
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsAssertionError} If a key is not in the enum
+   */
+  omit<const K extends keyof T>(
+    keys: readonly K[],
+    options?: { name?: string }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    Omit<T, K>,
+    FilterTuple<TTuple, { [P in KeyName]: Exclude<keyof T, K> }>,
+    SurvivingAliases<TAliases, Exclude<keyof T, K>>
+  >;
+  /**
+   * Creates an enum with more entries, which are appended to the tuple.
+   *
+   * Keys that already exist fail to compile and throw, unless `override` is set,
+   * in which case they are replaced in place.
+   *
+   * @example
+   * ```typescript
+   * const MoreFruits = Fruits.extend({ cherry: { color: 'red' } })
+   * ```
+   *
+   * @param extension The entries to add
+   * @param options.override Whether existing keys may be replaced
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsDefinitionError} If a key already exists and override is not set
+   */
+  extend<
+    const TExtension extends ButterKeyedEnumDefinition<TExtension, KeyName>,
+  >(
+    extension: TExtension & NoCollisions<keyof T, keyof TExtension>,
+    options?: ButterEnumsExtendOptions & { override?: false }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    MergeDefinitions<T, TExtension>,
+    ExtendedTuple<KeyName, MergeDefinitions<T, TExtension>, TTuple>,
+    SurvivingAliases<TAliases, keyof T | keyof TExtension>
+  >;
+  extend<
+    const TExtension extends ButterKeyedEnumDefinition<TExtension, KeyName>,
+  >(
+    extension: TExtension,
+    options: ButterEnumsExtendOptions & { override: true }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    MergeDefinitions<T, TExtension>,
+    ExtendedTuple<KeyName, MergeDefinitions<T, TExtension>, TTuple>,
+    SurvivingAliases<TAliases, keyof T | keyof TExtension>
+  >;
+  /**
+   * Creates an enum with the entries that match a predicate.
+   * A type predicate narrows the keys of the new enum.
+   *
+   * @example
+   * ```typescript
+   * const YellowFruits = Fruits.filterBy(
+   *   (fruit): fruit is Extract<typeof fruit, { color: 'yellow' }> => fruit.color === 'yellow'
+   * )
+   * ```
+   *
+   * @param predicate Tests each value
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   */
+  filterBy<TFiltered extends KeyedValue<KeyName, T>>(
+    predicate: (value: KeyedValue<KeyName, T>) => value is TFiltered,
+    options?: { name?: string }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    Pick<T, TFiltered[KeyName] & keyof T>,
+    FilterTuple<TTuple, TFiltered>,
+    SurvivingAliases<TAliases, TFiltered[KeyName] & keyof T>
+  >;
+  filterBy(
+    predicate: (value: KeyedValue<KeyName, T>) => boolean,
+    options?: { name?: string }
+  ): ButterKeyedEnumInstance<
+    KeyName,
+    T,
+    TTuple extends [] ? [] : TTuple[number][],
+    TAliases
+  >;
+}
+
+/**
+ * A reverse lookup from the values of a metadata property to the enum values, created by indexBy
+ *
+ * @template TValue The values of the enum
+ * @template TProperty The indexed property
+ */
+export type ButterKeyedEnumIndex<TValue, TProperty extends keyof TValue> = {
+  /**
+   * The indexed property
+   */
+  readonly property: TProperty;
+  /**
+   * Gets the enum value with the given property value.
+   * Narrows to the exact entry when the property value is a known literal.
+   */
+  get<TIndexValue extends TValue[TProperty]>(
+    indexValue: TIndexValue
+  ): Extract<TValue, { [P in TProperty]: TIndexValue }>;
+  get(indexValue: unknown): TValue | undefined;
+  /**
+   * Checks if an entry has the given property value
+   */
+  has(indexValue: unknown): indexValue is TValue[TProperty];
+  /**
+   * The number of indexed entries
+   */
+  readonly size: number;
+};
+
+/**
+ * The options of toOptions, except for grouping
+ *
+ * @template TValue The values of the enum
+ * @template TValueProperty The property to use as the value of the options
+ */
+export type ButterKeyedEnumToOptions<
+  TValue,
+  TValueProperty extends PropertyKey,
+> = {
+  /**
+   * The property to use as the label, or a function that creates it
+   */
+  label: keyof TValue | ((value: TValue) => string);
+  /**
+   * The property to use as the value. Defaults to the key
+   */
+  value?: TValueProperty;
+  /**
+   * Whether the option for a value is disabled
+   */
+  disabled?: (value: TValue) => boolean;
+  /**
+   * `"tuple"` (default) keeps the order of the enum, `"label"` sorts by label, or pass a comparator of options
+   */
+  sort?: ButterEnumOptionSort<TValue[TValueProperty & keyof TValue]>;
+};
+
+/**
+ * The values of a keyed enum that match a where query.
+ * Values with literal metadata are kept when it matches, and values with wider metadata are narrowed by the query.
+ *
+ * @template TValue The values of the enum
+ * @template TQuery The properties to match
+ */
+export type ButterKeyedEnumWhere<TValue, TQuery> = TValue extends unknown
+  ? TValue extends TQuery
+    ? TValue
+    : TQuery extends Pick<TValue, keyof TQuery & keyof TValue>
+      ? TValue & TQuery
+      : never
+  : never;
+
+/**
+ * The enum values grouped by the values of a metadata property, created by groupBy
+ *
+ * @template TValue The values of the enum
+ * @template TProperty The grouped property
+ */
+export type ButterKeyedEnumGroups<TValue, TProperty extends keyof TValue> = {
+  readonly [TGroup in TValue[TProperty] & PropertyKey]: readonly Extract<
+    TValue,
+    { [P in TProperty]: TGroup }
+  >[];
+};
+
+/**
+ * Utility type that finds the keys whose value for a property is shared with another key
+ */
+type DuplicatedKeys<TEnum, TProperty extends keyof TEnum[keyof TEnum]> = {
+  [K in keyof TEnum]: TEnum[K][TProperty] extends TEnum[Exclude<
+    keyof TEnum,
+    K
+  >][TProperty]
+    ? K
+    : never;
+}[keyof TEnum];
+
 /**
  * Utility type that hoists the key name into each value object
  *
@@ -284,6 +1292,21 @@ type HoistKeyToInner<T, KeyName extends string = "key"> = {
     : never;
 };
 
+/**
+ * Utility type for the values of a keyed enum, with the key hoisted into them
+ */
+type KeyedValue<KeyName extends string, T> = Readonly<
+  HoistKeyToInner<T, KeyName>
+>[keyof T];
+
+/**
+ * Utility type for the tuple of an extended enum, whose new entries are appended in an order types can't know
+ */
+type ExtendedTuple<KeyName extends string, T, TTuple extends readonly any[]> =
+  TTuple extends []
+    ? []
+    : [KeyedValue<KeyName, T>, ...KeyedValue<KeyName, T>[]];
+
 /**
  * Utility type that checks if two types are equal
  */
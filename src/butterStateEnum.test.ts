@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { ButterStateEnum } from "./butterStateEnum";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsTransitionError,
+} from "./shared/errors";
+
+describe("ButterStateEnum", () => {
+  const OrderStatus = ButterStateEnum(
+    {
+      pending: { label: "Pending payment" },
+      paid: { label: "Paid" },
+      shipped: { label: "Shipped" },
+      cancelled: { label: "Cancelled" },
+    },
+    {
+      name: "OrderStatus",
+      transitions: {
+        pending: ["paid", "cancelled"],
+        paid: ["shipped", "cancelled"],
+        shipped: [],
+        cancelled: [],
+      },
+    }
+  );
+
+  it("should still be a keyed enum", () => {
+    expect(OrderStatus.kind).toBe("keyed");
+    expect(OrderStatus.enum.pending).toEqual({
+      label: "Pending payment",
+      key: "pending",
+    });
+    expect(OrderStatus.get("paid")?.label).toBe("Paid");
+    expect(OrderStatus.keys).toEqual(["pending", "paid", "shipped", "cancelled"]);
+    expect(OrderStatus.hasTuple).toBe(false);
+    expect(() => OrderStatus.tuple).toThrow(
+      expect.objectContaining({ code: "MISSING_TUPLE_FACTORY" })
+    );
+  });
+
+  it("should check transitions with canTransition()", () => {
+    expect(OrderStatus.canTransition("pending", "paid")).toBe(true);
+    expect(OrderStatus.canTransition("pending", "shipped")).toBe(false);
+    expect(OrderStatus.canTransition("shipped", "pending")).toBe(false);
+
+    const next: unknown = "cancelled";
+    if (OrderStatus.canTransition("paid", next)) {
+      const target: "shipped" | "cancelled" = next;
+      expect(target).toBe("cancelled");
+    }
+    expect(() => OrderStatus.canTransition("lost" as "paid", "paid")).toThrow(
+      'Expected a key of OrderStatus, but received "lost"'
+    );
+  });
+
+  it("should narrow or throw with assertTransition()", () => {
+    const target: "paid" | "cancelled" = OrderStatus.assertTransition(
+      "pending",
+      "paid"
+    );
+    expect(target).toBe("paid");
+    expect(() => OrderStatus.assertTransition("pending", "shipped")).toThrow(
+      'OrderStatus can\'t transition from "pending" to "shipped", only to "paid", "cancelled"'
+    );
+    expect(() => OrderStatus.assertTransition("shipped", "paid")).toThrow(
+      ButterEnumsTransitionError
+    );
+    expect(() => OrderStatus.assertTransition("shipped", "paid")).toThrow(
+      'OrderStatus can\'t transition from "shipped" to "paid", it is a terminal state'
+    );
+  });
+
+  it("should list transitions, initial and terminal states", () => {
+    const fromPaid: readonly ["shipped", "cancelled"] =
+      OrderStatus.transitionsFrom("paid");
+    expect(fromPaid).toEqual(["shipped", "cancelled"]);
+    expect(OrderStatus.transitions.pending).toEqual(["paid", "cancelled"]);
+    expect(OrderStatus.initialStates).toEqual(["pending"]);
+    const terminal: readonly ("shipped" | "cancelled")[] =
+      OrderStatus.terminalStates;
+    expect(terminal).toEqual(["shipped", "cancelled"]);
+    expect(OrderStatus.isTerminal("shipped")).toBe(true);
+    expect(OrderStatus.isTerminal("paid")).toBe(false);
+    expect(OrderStatus.isInitial("pending")).toBe(true);
+    expect(() => OrderStatus.isInitial("refunded" as any)).toThrow(
+      ButterEnumsAssertionError
+    );
+    expect(OrderStatus.unreachableStates).toEqual([]);
+  });
+
+  it("should reject transitions to states that don't exist", () => {
+    expect(() =>
+      ButterStateEnum(
+        { on: {}, off: {} },
+        {
+          name: "Switch",
+          // @ts-expect-error - there is no broken state
+          transitions: { on: ["off", "broken"], off: ["on"] },
+        }
+      )
+    ).toThrow(
+      'Switch has a transition "on" -> "broken", but "broken" is not a state'
+    );
+  });
+
+  it("should reject initial states that don't exist", () => {
+    expect(() =>
+      ButterStateEnum(
+        { on: {}, off: {} },
+        {
+          name: "Switch",
+          transitions: { on: ["off"], off: ["on"] },
+          // @ts-expect-error - there is no broken state
+          initial: ["on", "broken"],
+        }
+      )
+    ).toThrow(
+      expect.objectContaining({
+        code: "UNKNOWN_STATE",
+        message: 'Switch has the initial state "broken", but it is not a state',
+      })
+    );
+  });
+
+  it("should reject unreachable states unless allowed", () => {
+    const definition = { draft: {}, live: {}, archived: {}, legacy: {} };
+    const transitions = {
+      draft: ["live"],
+      live: ["archived"],
+      archived: [],
+      legacy: ["archived"],
+    } as const;
+    expect(() =>
+      ButterStateEnum(definition, { transitions, initial: "draft" })
+    ).toThrow(
+      expect.objectContaining({
+        code: "UNREACHABLE_STATE",
+        message:
+          'ButterStateEnum has states that can\'t be reached from the initial states "draft": "legacy". Set allowUnreachable if this is intended',
+      })
+    );
+
+    const Allowed = ButterStateEnum(definition, {
+      transitions,
+      initial: "draft",
+      allowUnreachable: true,
+    });
+    expect(Allowed.unreachableStates).toEqual(["legacy"]);
+    expect(Allowed.initialStates).toEqual(["draft"]);
+
+    expect(() =>
+      ButterStateEnum(
+        { a: {}, b: {} },
+        { transitions: { a: ["b"], b: ["a"] } }
+      )
+    ).toThrow("can't be reached from any initial state");
+  });
+
+  it("should follow the tupleFactory order", () => {
+    const Light = ButterStateEnum(
+      { red: {}, green: {}, yellow: {} },
+      {
+        transitions: { red: ["green"], green: ["yellow"], yellow: ["red"] },
+        initial: "red",
+        tupleFactory: (lights) => [lights.red, lights.green, lights.yellow],
+      }
+    );
+    expect(Light.orderedKeys).toEqual(["red", "green", "yellow"]);
+    expect(Light.next("yellow", { wrap: true })).toBe("red");
+    expect(Light.terminalStates).toEqual([]);
+  });
+
+  it("should export the graph as Mermaid and DOT", () => {
+    expect(OrderStatus.toMermaid()).toBe(
+      [
+        "stateDiagram-v2",
+        "  [*] --> pending",
+        "  pending --> paid",
+        "  pending --> cancelled",
+        "  paid --> shipped",
+        "  paid --> cancelled",
+        "  shipped --> [*]",
+        "  cancelled --> [*]",
+        "",
+      ].join("\n")
+    );
+    expect(OrderStatus.toMermaid({ labelProperty: "label" })).toContain(
+      '  state "Pending payment" as pending\n'
+    );
+    expect(OrderStatus.toDot({ labelProperty: "label" })).toBe(
+      [
+        'digraph "OrderStatus" {',
+        '  "pending" [label="Pending payment"];',
+        '  "paid" [label="Paid"];',
+        '  "shipped" [label="Shipped", shape=doublecircle];',
+        '  "cancelled" [label="Cancelled", shape=doublecircle];',
+        '  "pending" -> "paid";',
+        '  "pending" -> "cancelled";',
+        '  "paid" -> "shipped";',
+        '  "paid" -> "cancelled";',
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+});
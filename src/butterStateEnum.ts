@@ -0,0 +1,349 @@
+import {
+  ButterKeyedEnum,
+  ButterKeyedEnumDefinition,
+  ButterKeyedEnumOptions,
+} from "./butterKeyedEnum";
+import {
+  ButterEnumsDefinitionError,
+  ButterEnumsTransitionError,
+  describeInput,
+} from "./shared/errors";
+import { extendEnum } from "./shared/extend";
+import { AnyButterKeyedEnum, orderedKeysOf } from "./shared/introspect";
+
+/**
+ * Butter State Enum
+ *
+ * State enums are keyed enums that also declare which state can follow which,
+ * making them a lightweight state machine.
+ *
+ * E.g.
+ *
+ * ```typescript
+ * const OrderStatus = ButterStateEnum({
+ *   pending: { label: 'Pending' },
+ *   paid: { label: 'Paid' },
+ *   shipped: { label: 'Shipped' },
+ *   cancelled: { label: 'Cancelled' },
+ * }, {
+ *   name: 'OrderStatus',
+ *   transitions: {
+ *     pending: ['paid', 'cancelled'],
+ *     paid: ['shipped', 'cancelled'],
+ *     shipped: [],
+ *     cancelled: [],
+ *   },
+ * })
+ *
+ * OrderStatus.canTransition('pending', 'paid') // true
+ * OrderStatus.transitionsFrom('paid') // ['shipped', 'cancelled']
+ * OrderStatus.terminalStates // ['shipped', 'cancelled']
+ * OrderStatus.enum.pending.label // 'Pending'
+ * ```
+ *
+ * The transitions are validated when the enum is created: every referenced state, including the initial states, must exist,
+ * and every state must be reachable from an initial state.
+ *
+ * @template KeyName - The name of the property to hoist the key into. Defaults to `"key"`.
+ * @template T - The original enum-like object whose keys are the states.
+ * @template TTransitions - The states each state can transition to.
+ * @template TTuple - The tuple returned by the tupleFactory.
+ *
+ * @param {T} enumObject - The original object representing the states and their metadata.
+ * @param {Object} options - The options of ButterKeyedEnum, and
+ * @param {TTransitions} options.transitions - The states each state can transition to. Terminal states transition to `[]`.
+ * @param {keyof T | (keyof T)[]} [options.initial] - The initial states. Defaults to the states no other state transitions to.
+ * @param {boolean} [options.allowUnreachable=false] - Whether to allow states that can't be reached from an initial state.
+ *
+ * @returns The keyed enum object with state machine helpers
+ *
+ * @throws {ButterEnumsDefinitionError} If a transition or an initial state references a state that doesn't exist, or a state is unreachable.
+ */
+export function ButterStateEnum<
+  KeyName extends string = "key",
+  const T extends ButterKeyedEnumDefinition<T, KeyName> = {
+    [key: string]: any;
+  },
+  const TTransitions extends {
+    [K in keyof T]: readonly (keyof T)[];
+  } = {
+    [K in keyof T]: readonly (keyof T)[];
+  },
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = []
+>(
+  enumObject: T,
+  options: ButterKeyedEnumOptions<KeyName, T, TTuple> & {
+    transitions: TTransitions;
+    initial?: keyof T | readonly (keyof T)[];
+    allowUnreachable?: boolean;
+  }
+) {
+  const enumName = options.name ?? "ButterStateEnum";
+  const base = ButterKeyedEnum<KeyName, T, TTuple>(enumObject, {
+    ...options,
+    name: enumName,
+  });
+  const states = orderedKeysOf(
+    base as unknown as AnyButterKeyedEnum
+  ) as readonly (keyof T & string)[];
+
+  const $transitions = Object.freeze(
+    Object.fromEntries(
+      states.map((state) => [
+        state,
+        Object.freeze([...(options.transitions[state] ?? [])]),
+      ])
+    )
+  ) as unknown as Readonly<TTransitions>;
+
+  for (const [from, targets] of Object.entries(options.transitions)) {
+    for (const to of [from, ...(targets as string[])]) {
+      if (!base.isKey(to)) {
+        throw new ButterEnumsDefinitionError(
+          "UNKNOWN_STATE",
+          enumName,
+          `${enumName} has a transition ${describeInput(from)} -> ${describeInput(to)}, but ${describeInput(to)} is not a state`
+        );
+      }
+    }
+  }
+
+  type TState = keyof T & string;
+  type TTerminalState = {
+    [K in keyof TTransitions]: TTransitions[K] extends readonly [] ? K : never;
+  }[keyof TTransitions] &
+    TState;
+
+  const targetsOf = (state: string): readonly TState[] =>
+    ($transitions as Record<string, readonly TState[]>)[state] ?? [];
+
+  const initialStates: readonly TState[] = Object.freeze(
+    options.initial === undefined
+      ? states.filter(
+          (state) => !states.some((from) => targetsOf(from).includes(state))
+        )
+      : ([] as TState[]).concat(options.initial as TState | TState[])
+  );
+  for (const state of initialStates) {
+    if (!base.isKey(state)) {
+      throw new ButterEnumsDefinitionError(
+        "UNKNOWN_STATE",
+        enumName,
+        `${enumName} has the initial state ${describeInput(state)}, but it is not a state`
+      );
+    }
+  }
+
+  const reachable = new Set<string>(initialStates);
+  for (const state of reachable) {
+    targetsOf(state).forEach((target) => reachable.add(target));
+  }
+  const unreachableStates: readonly TState[] = Object.freeze(
+    states.filter((state) => !reachable.has(state))
+  );
+  if (unreachableStates.length > 0 && !options.allowUnreachable) {
+    throw new ButterEnumsDefinitionError(
+      "UNREACHABLE_STATE",
+      enumName,
+      `${enumName} has states that can't be reached from ${
+        initialStates.length > 0
+          ? `the initial states ${initialStates.map(describeInput).join(", ")}`
+          : "any initial state"
+      }: ${unreachableStates.map(describeInput).join(", ")}. Set allowUnreachable if this is intended`
+    );
+  }
+
+  const terminalStates = Object.freeze(
+    states.filter((state) => targetsOf(state).length === 0)
+  ) as readonly string[] as readonly TTerminalState[];
+
+  /**
+   * Checks if a state can transition to another state
+   *
+   * @example
+   * ```typescript
+   * if (OrderStatus.canTransition('pending', next)) {
+   *   next // 'paid' | 'cancelled'
+   * }
+   * ```
+   *
+   * @param from The state to transition from
+   * @param to The untrusted state to transition to
+   * @returns {boolean} True if the transition is declared
+   */
+  function canTransition<TFrom extends TState>(
+    from: TFrom,
+    to: unknown
+  ): to is TTransitions[TFrom][number] {
+    return targetsOf(base.assertKey(from) as string).includes(to as TState);
+  }
+
+  /**
+   * Renders the states and their metadata label, if any
+   */
+  function labelOf(state: string, labelProperty: string | undefined) {
+    const label =
+      labelProperty === undefined
+        ? undefined
+        : (base.enum as Record<string, Record<string, unknown>>)[state]?.[
+            labelProperty
+          ];
+    return label === undefined || label === null ? undefined : String(label);
+  }
+
+  return extendEnum(base, {
+    /**
+     * The states each state can transition to
+     *
+     * @type {Readonly<TTransitions>}
+     */
+    transitions: $transitions,
+    /**
+     * The states the state machine starts in,
+     * either given by the initial option or the states no other state transitions to
+     *
+     * @type {readonly TState[]}
+     */
+    initialStates,
+    /**
+     * The states that can't transition to any other state
+     *
+     * @type {readonly TTerminalState[]}
+     */
+    terminalStates,
+    /**
+     * The states that can't be reached from an initial state, only non-empty with allowUnreachable
+     *
+     * @type {readonly TState[]}
+     */
+    unreachableStates,
+    canTransition,
+    /**
+     * Asserts that a state can transition to another state
+     *
+     * @example
+     * ```typescript
+     * const next = OrderStatus.assertTransition(order.status, request.body.status) // 'paid' | 'cancelled' | ...
+     * ```
+     *
+     * @param from The state to transition from
+     * @param to The untrusted state to transition to
+     * @returns {TTransitions[TFrom][number]} The state to transition to, narrowed to the valid targets
+     * @throws {ButterEnumsTransitionError} If the transition is not declared
+     */
+    assertTransition<TFrom extends TState>(
+      from: TFrom,
+      to: unknown
+    ): TTransitions[TFrom][number] {
+      if (!canTransition(from, to)) {
+        throw new ButterEnumsTransitionError(enumName, from, to, targetsOf(from));
+      }
+      return to;
+    },
+    /**
+     * Gets the states a state can transition to
+     *
+     * @param from The state to transition from
+     * @returns {TTransitions[TFrom]} The states it can transition to
+     */
+    transitionsFrom<TFrom extends TState>(from: TFrom): TTransitions[TFrom] {
+      return targetsOf(base.assertKey(from) as string) as TTransitions[TFrom];
+    },
+    /**
+     * Checks if a state can't transition to any other state
+     *
+     * @param state The state to check
+     * @returns {boolean} True if the state is terminal
+     */
+    isTerminal(state: TState): state is TTerminalState {
+      return targetsOf(base.assertKey(state) as string).length === 0;
+    },
+    /**
+     * Checks if a state is one of the initial states
+     *
+     * @param state The state to check
+     * @returns {boolean} True if the state is initial
+     */
+    isInitial(state: TState): boolean {
+      return initialStates.includes(base.assertKey(state) as TState);
+    },
+    /**
+     * Renders the state machine as a Mermaid state diagram
+     *
+     * @example
+     * ```typescript
+     * OrderStatus.toMermaid()
+     * // stateDiagram-v2
+     * //   [*] --> pending
+     * //   pending --> paid
+     * //   ...
+     * //   shipped --> [*]
+     * ```
+     *
+     * @param options Configuration options
+     * @param options.labelProperty The metadata property to label the states with
+     * @returns {string} The Mermaid source
+     */
+    toMermaid(options?: {
+      labelProperty?: keyof T[keyof T] & string;
+    }): string {
+      const lines = ["stateDiagram-v2"];
+      for (const state of states) {
+        const label = labelOf(state, options?.labelProperty);
+        if (label !== undefined) {
+          lines.push(`  state ${JSON.stringify(label)} as ${state}`);
+        }
+      }
+      for (const state of initialStates) {
+        lines.push(`  [*] --> ${state}`);
+      }
+      for (const state of states) {
+        for (const target of targetsOf(state)) {
+          lines.push(`  ${state} --> ${target}`);
+        }
+      }
+      for (const state of terminalStates) {
+        lines.push(`  ${state} --> [*]`);
+      }
+      return lines.join("\n") + "\n";
+    },
+    /**
+     * Renders the state machine as a Graphviz DOT digraph
+     *
+     * @example
+     * ```typescript
+     * OrderStatus.toDot()
+     * // digraph "OrderStatus" {
+     * //   "pending" -> "paid";
+     * //   ...
+     * // }
+     * ```
+     *
+     * @param options Configuration options
+     * @param options.labelProperty The metadata property to label the states with
+     * @returns {string} The DOT source
+     */
+    toDot(options?: { labelProperty?: keyof T[keyof T] & string }): string {
+      const lines = [`digraph ${JSON.stringify(enumName)} {`];
+      for (const state of states) {
+        const label = labelOf(state, options?.labelProperty);
+        const attributes = [
+          ...(label !== undefined ? [`label=${JSON.stringify(label)}`] : []),
+          ...((terminalStates as readonly string[]).includes(state)
+            ? ["shape=doublecircle"]
+            : []),
+        ];
+        if (attributes.length > 0) {
+          lines.push(`  ${JSON.stringify(state)} [${attributes.join(", ")}];`);
+        }
+      }
+      for (const state of states) {
+        for (const target of targetsOf(state)) {
+          lines.push(`  ${JSON.stringify(state)} -> ${JSON.stringify(target)};`);
+        }
+      }
+      lines.push("}");
+      return lines.join("\n") + "\n";
+    },
+  });
+}
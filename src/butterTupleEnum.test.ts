@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { ButterTupleEnum } from './butterTupleEnum';
+import { ButterEnumsAssertionError, ButterEnumsDefinitionError } from './shared/errors';
+import { StandardSchemaV1 } from './shared/standard-schema';
 
 describe('ButterTupleEnum', () => {
   const Colors = ButterTupleEnum(['red', 'green', 'blue']);
@@ -17,6 +19,17 @@ describe('ButterTupleEnum', () => {
     });
   });
 
+  it('should reject duplicated and empty keys', () => {
+    expect(() => ButterTupleEnum(['a', 'b', 'a'], { name: 'Letters' })).toThrow(
+      'Letters has "a" more than once'
+    );
+    expect(() => ButterTupleEnum(['a', ''], { name: 'Letters' })).toThrow(
+      'Letters has "" at index 1, but keys must be non-empty strings'
+    );
+    expect(() => ButterTupleEnum(['a', 1] as any)).toThrow(ButterEnumsDefinitionError);
+    expect(ButterTupleEnum(['a', 'a'], { validate: 'never' }).keys).toEqual(['a', 'a']);
+  });
+
   it('should retrieve values by index using get()', () => {
     expect(Colors.get(0)).toBe('red');
     expect(Colors.get(1)).toBe('green');
@@ -44,6 +57,13 @@ describe('ButterTupleEnum', () => {
     }).toThrow();
   });
 
+  it('should not freeze the tuple and enum when freeze is none', () => {
+    const Sizes = ButterTupleEnum(['small', 'large'], { freeze: 'none' });
+    expect(Object.isFrozen(Sizes.tuple)).toBe(false);
+    expect(Object.isFrozen(Sizes.enum)).toBe(false);
+    expect(Object.isFrozen(Sizes.pick(['small']).tuple)).toBe(false);
+  });
+
   it('should work with empty arrays', () => {
     const EmptyEnum = ButterTupleEnum([]);
     expect(EmptyEnum.tuple).toEqual([]);
@@ -54,4 +74,410 @@ describe('ButterTupleEnum', () => {
   it('should provide the keys', () => {
     expect(Colors.keys).toEqual(['red', 'green', 'blue']);
   });
+
+  it('should check keys and values with isKey() and isValue()', () => {
+    expect(Colors.isKey('red')).toBe(true);
+    expect(Colors.isKey('purple')).toBe(false);
+    expect(Colors.isKey('constructor')).toBe(false);
+    expect(Colors.isKey(0)).toBe(false);
+    expect(Colors.isValue('blue')).toBe(true);
+    expect(Colors.isValue(null)).toBe(false);
+
+    const input: unknown = 'green';
+    if (Colors.isKey(input)) {
+      const color: 'red' | 'green' | 'blue' = input;
+      expect(color).toBe('green');
+    }
+  });
+
+  it('should narrow or throw with assertKey() and assertValue()', () => {
+    const NamedColors = ButterTupleEnum(['red', 'green', 'blue'], { name: 'Colors' });
+    expect(NamedColors.assertKey('red')).toBe('red');
+    expect(NamedColors.assertValue('blue')).toBe('blue');
+    expect(() => NamedColors.assertKey('purple')).toThrow(ButterEnumsAssertionError);
+    expect(() => NamedColors.assertKey('purple')).toThrow(
+      'Expected a key of Colors, but received "purple"'
+    );
+    expect(() => Colors.assertValue(undefined)).toThrow(
+      'Expected a value of ButterTupleEnum, but received undefined'
+    );
+  });
+
+  it('should parse keys with parse() and safeParse()', () => {
+    expect(Colors.parse('green')).toBe('green');
+    expect(() => Colors.parse('Green')).toThrow(
+      'Expected a key of ButterTupleEnum, but received "Green". Did you mean "green"?'
+    );
+    expect(Colors.safeParse('blue')).toEqual({ success: true, value: 'blue' });
+
+    const result = Colors.safeParse('gren');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('UNKNOWN_KEY');
+      expect(result.error.suggestions).toEqual(['green']);
+    }
+    expect(!Colors.safeParse(1).success).toBe(true);
+  });
+
+  it('should implement Standard Schema with toStandardSchema()', () => {
+    const schema = Colors.toStandardSchema();
+    expect(schema['~standard'].validate('red')).toEqual({ value: 'red' });
+    expect(schema['~standard'].validate(['red'])).toEqual({
+      issues: [
+        {
+          message: 'Expected a key of ButterTupleEnum, but received ["red"]',
+          path: [],
+        },
+      ],
+    });
+
+    const output: StandardSchemaV1.InferOutput<typeof schema> = 'blue';
+    expect(Colors.isKey(output)).toBe(true);
+  });
+
+  it('should describe itself with kind', () => {
+    expect(Colors.kind).toBe('tuple');
+  });
+
+  it('should call the handler for a key with match()', () => {
+    const hex = (color: (typeof Colors.tuple)[number]) =>
+      Colors.match(color, {
+        red: (key) => `${key} #FF0000` as const,
+        green: () => '#00FF00' as const,
+        blue: () => 255 as const,
+      });
+    const result: 'red #FF0000' | '#00FF00' | 255 = hex('red');
+    expect(result).toBe('red #FF0000');
+    expect(hex('blue')).toBe(255);
+    expect(() => hex('purple' as 'red')).toThrow(
+      'Expected a key of ButterTupleEnum, but received "purple"'
+    );
+
+    // @ts-expect-error - the blue handler is missing
+    Colors.match('red', { red: () => 1, green: () => 2 });
+    Colors.match('red', {
+      red: () => 1,
+      green: () => 2,
+      blue: () => 3,
+      // @ts-expect-error - there is no purple
+      purple: () => 4,
+    });
+  });
+
+  it('should fall back to the _ handler with matchPartial()', () => {
+    const handlers = { green: () => 'go' as const, _: (key: string) => key.length };
+    expect(Colors.matchPartial('green', handlers)).toBe('go');
+    const result: 'go' | number = Colors.matchPartial('blue', handlers);
+    expect(result).toBe(4);
+
+    // @ts-expect-error - the _ handler is required
+    Colors.matchPartial('red', { red: () => 1 });
+  });
+
+  describe('ordinal navigation', () => {
+    const Levels = ButterTupleEnum(['debug', 'info', 'warn', 'error']);
+
+    it('should get the literal index of a key with indexOf()', () => {
+      const index: 2 = Levels.indexOf('warn');
+      expect(index).toBe(2);
+      expect(() => Levels.indexOf('trace' as 'info')).toThrow(
+        'Expected a key of ButterTupleEnum, but received "trace"'
+      );
+    });
+
+    it('should compare keys', () => {
+      expect(Levels.compare('debug', 'error')).toBe(-1);
+      expect(Levels.compare('warn', 'warn')).toBe(0);
+      expect(Levels.compare('error', 'info')).toBe(1);
+      const unsorted: (typeof Levels.keys)[number][] = ['error', 'debug', 'warn'];
+      expect(unsorted.sort(Levels.compare)).toEqual([
+        'debug',
+        'warn',
+        'error',
+      ]);
+      expect(Levels.isBefore('info', 'warn')).toBe(true);
+      expect(Levels.isBefore('warn', 'warn')).toBe(false);
+      expect(Levels.isAfter('error', 'debug')).toBe(true);
+    });
+
+    it('should get the next and previous keys', () => {
+      const next: 'warn' = Levels.next('info');
+      expect(next).toBe('warn');
+      const last: undefined = Levels.next('error');
+      expect(last).toBeUndefined();
+      const wrapped: 'debug' = Levels.next('error', { wrap: true });
+      expect(wrapped).toBe('debug');
+
+      const prev: 'info' = Levels.prev('warn');
+      expect(prev).toBe('info');
+      expect(Levels.prev('debug')).toBeUndefined();
+      const wrappedPrev: 'error' = Levels.prev('debug', { wrap: true });
+      expect(wrappedPrev).toBe('error');
+    });
+
+    it('should get a typed range of keys', () => {
+      const range: readonly ['info', 'warn', 'error'] = Levels.range('info', 'error');
+      expect(range).toEqual(['info', 'warn', 'error']);
+      expect(Levels.range('warn', 'warn')).toEqual(['warn']);
+      const empty: readonly [] = Levels.range('error', 'info');
+      expect(empty).toEqual([]);
+    });
+
+    it('should clamp keys', () => {
+      const clamped: 'info' | 'warn' = Levels.clamp('debug', 'info', 'warn');
+      expect(clamped).toBe('info');
+      expect(Levels.clamp('error', 'info', 'warn')).toBe('warn');
+      expect(Levels.clamp('warn', 'debug', 'error')).toBe('warn');
+    });
+  });
+
+  describe('records and sets', () => {
+    it('should create an exhaustive frozen record', () => {
+      const hex: { readonly red: string; readonly green: string; readonly blue: string } =
+        Colors.record((value, key) => `${value}:${key}`);
+      expect(hex).toEqual({ red: 'red:red', green: 'green:green', blue: 'blue:blue' });
+      expect(Object.isFrozen(hex)).toBe(true);
+    });
+
+    it('should freeze a record with every key', () => {
+      const hex = Colors.recordOf({ red: '#f00', green: '#0f0', blue: '#00f' });
+      expect(Object.keys(hex)).toEqual(['red', 'green', 'blue']);
+      expect(Object.isFrozen(hex)).toBe(true);
+
+      // @ts-expect-error - blue is missing
+      expect(() => Colors.recordOf({ red: '#f00', green: '#0f0' })).toThrow(
+        'The record of ButterTupleEnum is missing "blue"'
+      );
+      // @ts-expect-error - purple is not a key
+      expect(() => Colors.recordOf({ red: '', green: '', blue: '', purple: '' })).toThrow(
+        ButterEnumsAssertionError
+      );
+    });
+
+    it('should create immutable sets that iterate in tuple order', () => {
+      const warm = Colors.setOf(['blue', 'red']);
+      expect([...warm]).toEqual(['red', 'blue']);
+      expect(warm.size).toBe(2);
+      expect(warm.has('red')).toBe(true);
+      expect(warm.has('green')).toBe(false);
+      expect(Object.isFrozen(warm)).toBe(true);
+      expect(JSON.stringify({ warm })).toBe('{"warm":["red","blue"]}');
+
+      expect(warm.add('green').toArray()).toEqual(['red', 'green', 'blue']);
+      expect(warm.remove('red').toArray()).toEqual(['blue']);
+      expect(warm.toArray()).toEqual(['red', 'blue']);
+    });
+
+    it('should combine sets', () => {
+      const warm = Colors.setOf(['red', 'green']);
+      const cool = Colors.setOf(['green', 'blue']);
+      expect(warm.union(cool).toArray()).toEqual(['red', 'green', 'blue']);
+      expect(warm.intersect(cool).toArray()).toEqual(['green']);
+      expect(warm.difference(cool).toArray()).toEqual(['red']);
+      expect(warm.complement().toArray()).toEqual(['blue']);
+      expect(Colors.setOf().complement().size).toBe(3);
+      expect(warm.intersect(cool).isSubsetOf(warm)).toBe(true);
+      expect(warm.isSubsetOf(cool)).toBe(false);
+      expect(warm.equals(['green', 'red'])).toBe(true);
+      expect(warm.equals(cool)).toBe(false);
+    });
+
+    it('should reject foreign keys', () => {
+      const Shapes = ButterTupleEnum(['circle', 'square']);
+      // @ts-expect-error - circle is not a color
+      expect(() => Colors.setOf(['red', 'circle'])).toThrow(ButterEnumsAssertionError);
+      // @ts-expect-error - a set of another enum
+      expect(() => Colors.setOf(['red']).union(Shapes.setOf(['circle']))).toThrow(
+        'Expected a key of ButterTupleEnum, but received "circle"'
+      );
+      const parsed = JSON.parse('["red", "purple"]');
+      expect(() => Colors.setOf(parsed)).toThrow(ButterEnumsAssertionError);
+    });
+  });
+
+  describe('iteration and queries', () => {
+    it('should iterate over the keys in tuple order', () => {
+      expect([...Colors]).toEqual(['red', 'green', 'blue']);
+      expect(Colors.entries()).toEqual([
+        ['red', 'red'],
+        ['green', 'green'],
+        ['blue', 'blue'],
+      ]);
+    });
+
+    it('should query the keys with callbacks', () => {
+      const visited: string[] = [];
+      Colors.forEach((value, key) => visited.push(`${key}=${value}`));
+      expect(visited).toEqual(['red=red', 'green=green', 'blue=blue']);
+      expect(Colors.map((color, _, enumObject) => enumObject[color])).toEqual(['red', 'green', 'blue']);
+      expect(Colors.some((color) => color.startsWith('g'))).toBe(true);
+      expect(Colors.every((color) => color.length > 3)).toBe(false);
+
+      const warm = Colors.filter((color): color is 'red' => color === 'red');
+      const keys: 'red'[] = warm;
+      expect(keys).toEqual(['red']);
+    });
+  });
+
+  describe('composition', () => {
+    it('should pick and omit keys in tuple order', () => {
+      const picked = Colors.pick(['blue', 'red']);
+      const pickedTuple: readonly ['red', 'blue'] = picked.tuple;
+      expect(pickedTuple).toEqual(['red', 'blue']);
+      expect(picked.isKey('green')).toBe(false);
+
+      const omitted = Colors.omit(['green']);
+      const omittedTuple: readonly ['red', 'blue'] = omitted.tuple;
+      expect(omittedTuple).toEqual(['red', 'blue']);
+
+      // @ts-expect-error - purple is not a key
+      expect(() => Colors.pick(['purple'])).toThrow(ButterEnumsAssertionError);
+    });
+
+    it('should extend the tuple', () => {
+      const extended = Colors.extend(['purple']);
+      const tuple: readonly ['red', 'green', 'blue', 'purple'] = extended.tuple;
+      expect(tuple).toEqual(['red', 'green', 'blue', 'purple']);
+      expect(extended.next('blue')).toBe('purple');
+      expect(extended.pick(['purple']).tuple).toEqual(['purple']);
+    });
+
+    it('should reject colliding keys unless overriding', () => {
+      // @ts-expect-error - red already exists
+      expect(() => Colors.extend(['red', 'purple'])).toThrow(
+        'ButterTupleEnum already has "red". Pass { override: true } to replace it'
+      );
+      const overridden = Colors.extend(['red', 'purple'], { override: true });
+      const tuple: readonly ['red', 'green', 'blue', 'purple'] = overridden.tuple;
+      expect(tuple).toEqual(['red', 'green', 'blue', 'purple']);
+    });
+
+    it('should filter keys', () => {
+      const warm = Colors.filterBy((color): color is 'red' | 'green' => color !== 'blue');
+      const tuple: readonly ['red', 'green'] = warm.tuple;
+      expect(tuple).toEqual(['red', 'green']);
+      expect(Colors.filterBy(color => color.length > 3).tuple).toEqual(['green', 'blue']);
+    });
+
+    it('should keep the name unless renamed', () => {
+      expect(() => Colors.pick(['red']).parse('blue')).toThrow('Expected a key of ButterTupleEnum');
+      expect(() => Colors.pick(['red'], { name: 'Red' }).parse('blue')).toThrow('Expected a key of Red');
+    });
+  });
+
+  describe('aliases and deprecated keys', () => {
+    const accesses: unknown[] = [];
+    const Statuses = ButterTupleEnum(['active', 'cancelled', 'legacy'], {
+      name: 'Statuses',
+      aliases: { canceled: 'cancelled' },
+      deprecated: ['legacy'],
+      onDeprecatedAccess: access => accesses.push(access)
+    });
+
+    it('should resolve aliases to canonical keys', () => {
+      expect(Statuses.parse('canceled')).toBe('cancelled');
+      expect(Statuses.safeParse('canceled')).toEqual({ success: true, value: 'cancelled' });
+      const normalized: 'cancelled' = Statuses.normalize('canceled');
+      expect(normalized).toBe('cancelled');
+      expect(Statuses.normalize('active')).toBe('active');
+      expect(() => Statuses.normalize('cancel' as string)).toThrow(ButterEnumsAssertionError);
+    });
+
+    it('should exclude aliases from keys', () => {
+      expect(Statuses.tuple).toEqual(['active', 'cancelled', 'legacy']);
+      expect(Statuses.isKey('canceled')).toBe(false);
+      expect(Statuses.aliases).toEqual({ canceled: 'cancelled' });
+    });
+
+    it('should report deprecated access', () => {
+      accesses.length = 0;
+      Statuses.parse('canceled');
+      Statuses.parse('legacy');
+      Statuses.parse('active');
+      expect(accesses).toEqual([
+        { input: 'canceled', key: 'cancelled', alias: true },
+        { input: 'legacy', key: 'legacy', alias: false }
+      ]);
+      expect(Statuses.isDeprecated('legacy')).toBe(true);
+      expect(Statuses.isDeprecated('active')).toBe(false);
+    });
+
+    it('should only match keys, like keyed enums', () => {
+      accesses.length = 0;
+      const handlers = { active: () => 1, cancelled: () => 2, legacy: () => 3 };
+      expect(Statuses.match('legacy', handlers)).toBe(3);
+      expect(() => Statuses.match('canceled' as any, handlers)).toThrow(ButterEnumsAssertionError);
+      expect(() => Statuses.matchPartial('canceled' as any, { _: () => 0 })).toThrow(
+        ButterEnumsAssertionError
+      );
+      expect(accesses).toEqual([]);
+    });
+
+    it('should reject aliases that collide with keys', () => {
+      expect(() =>
+        // @ts-expect-error - active is already a key
+        ButterTupleEnum(['active', 'cancelled'], { aliases: { active: 'cancelled' } })
+      ).toThrow('ButterTupleEnum has an alias "active", which is already a key');
+      expect(() =>
+        // @ts-expect-error - gone is not a key
+        ButterTupleEnum(['active'], { aliases: { old: 'gone' } })
+      ).toThrow('ButterTupleEnum has an alias "old" for "gone", which is not a key');
+    });
+
+    it('should keep the aliases and deprecated keys of the remaining keys in derived enums', () => {
+      const Current = Statuses.omit(['legacy']);
+      const aliases: Readonly<{ canceled: 'cancelled' }> = Current.aliases;
+      expect(aliases).toEqual({ canceled: 'cancelled' });
+      expect(Current.deprecated).toEqual([]);
+      expect(Current.normalize('canceled')).toBe('cancelled');
+
+      const Legacy = Statuses.pick(['active', 'legacy']);
+      expect(Legacy.aliases).toEqual({});
+      accesses.length = 0;
+      expect(Legacy.parse('legacy')).toBe('legacy');
+      expect(accesses).toEqual([{ input: 'legacy', key: 'legacy', alias: false }]);
+
+      expect(Statuses.extend(['canceled']).aliases).toEqual({});
+      expect(Statuses.extend(['paused']).deprecated).toEqual(['legacy']);
+      expect(Statuses.filterBy(status => status !== 'active').aliases).toEqual({
+        canceled: 'cancelled'
+      });
+    });
+  });
+
+  describe('options', () => {
+    it('should create frozen options in tuple order', () => {
+      const options = Colors.toOptions();
+      expect(options).toEqual([
+        { label: 'red', value: 'red', disabled: false },
+        { label: 'green', value: 'green', disabled: false },
+        { label: 'blue', value: 'blue', disabled: false }
+      ]);
+      expect(Object.isFrozen(options)).toBe(true);
+      expect(Object.isFrozen(options[0])).toBe(true);
+      const value: 'red' | 'green' | 'blue' = options[0]!.value;
+      expect(value).toBe('red');
+    });
+
+    it('should label, disable and sort options', () => {
+      const options = Colors.toOptions({
+        label: color => color.toUpperCase(),
+        disabled: color => color === 'green',
+        sort: 'label'
+      });
+      expect(options.map(option => option.label)).toEqual(['BLUE', 'GREEN', 'RED']);
+      expect(options.filter(option => option.disabled).map(option => option.value)).toEqual(['green']);
+      expect(Colors.toOptions({ sort: (a, b) => b.value.localeCompare(a.value) }).map(o => o.value)).toEqual([
+        'red',
+        'green',
+        'blue'
+      ]);
+    });
+
+    it('should round-trip option values', () => {
+      const [option] = Colors.toOptions();
+      expect(Colors.fromOption(option!.value)).toBe('red');
+      expect(() => Colors.fromOption('purple')).toThrow(ButterEnumsAssertionError);
+    });
+  });
 });
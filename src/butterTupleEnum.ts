@@ -1,4 +1,26 @@
-import deepFreeze from "deep-freeze-es6"
+import {
+  ButterEnumsAliasOptions,
+  deriveAliasOptions,
+  makeAliasResolver,
+  SurvivingAliases
+} from "./shared/aliases"
+import { makeCodecMethods } from "./shared/codec"
+import { makeCollectionMethods } from "./shared/collections"
+import {
+  assertNoCollisions,
+  ButterEnumsExtendOptions,
+  FilterTuple,
+  NoCollisions
+} from "./shared/composition"
+import { ButterEnumsAssertionError, ButterEnumsParseResult } from "./shared/errors"
+import { extendEnum } from "./shared/extend"
+import { ButterEnumsFreezeMode, freezeEnum } from "./shared/freeze"
+import { ButterEnumOption, ButterEnumOptionSort, sortOptions } from "./shared/options"
+import { makeOrdinalMethods } from "./shared/ordinal"
+import { makeQueryMethods } from "./shared/query"
+import { makeStandardSchema, StandardSchemaV1 } from "./shared/standard-schema"
+import { suggestKeys } from "./shared/suggest"
+import { ButterEnumsValidateMode, shouldValidate, validateTupleKeys } from "./shared/validate"
 
 /**
  * Butter Tuple Enum
@@ -18,15 +40,165 @@ import deepFreeze from "deep-freeze-es6"
  *
  * @template T The tuple of strings
  * @param tuple The tuple of strings to create an enum from
+ * @param options Configuration options
+ * @param options.name The name of the enum, used in error messages. Defaults to `"ButterTupleEnum"`
+ * @param options.aliases Legacy names that resolve to a key, e.g. `{ canceled: 'cancelled' }`
+ * @param options.deprecated Keys that are still valid, but should no longer be used
+ * @param options.onDeprecatedAccess Called when parse or normalize resolves an alias or a deprecated key
+ * @param options.validate When to check at runtime that the keys are unique, non-empty strings: `"always"` (default), `"dev"` or `"never"`
+ * @param options.freeze Whether the tuple and the enum object are frozen at runtime: `"deep"` (default), `"shallow"`, `"none"` or `"dev"`
  * @returns The tuple enum object with helper methods
+ * @throws {ButterEnumsDefinitionError} If a key is empty or duplicated, an alias is a key, or an alias or deprecated key doesn't lead to a key
  */
-export function ButterTupleEnum<const T extends readonly string[]>(tuple: T) {
-  const $tuple = deepFreeze(tuple)
+export function ButterTupleEnum<
+  const T extends readonly string[],
+  const TAliases extends { [alias: string]: T[number] } = {}
+>(
+  tuple: T,
+  options?: {
+    name?: string
+    validate?: ButterEnumsValidateMode
+    freeze?: ButterEnumsFreezeMode
+  } & ButterEnumsAliasOptions<T[number], TAliases>
+): ButterTupleEnumInstance<T, TAliases> {
+  const base = createButterTupleEnum(tuple, options)
+  const enumName = options?.name ?? "ButterTupleEnum"
+  const validate = options?.validate
+  const freeze = options?.freeze
+
+  /**
+   * Creates a tuple enum with the same options, keeping the aliases and deprecated keys that lead to one of its keys
+   */
+  function compose(keys: readonly string[], name = enumName): any {
+    return ButterTupleEnum(keys, {
+      name,
+      validate,
+      freeze,
+      ...deriveAliasOptions(options, keys)
+    } as any)
+  }
+
+  function pick(keys: readonly string[], options?: { name?: string }) {
+    keys.forEach(base.assertKey)
+    return compose(tuple.filter(key => keys.includes(key)), options?.name)
+  }
+
+  const composition: ButterTupleEnumComposition<T, TAliases> = {
+    pick,
+    omit(keys: readonly string[], options?: { name?: string }) {
+      keys.forEach(base.assertKey)
+      return pick(tuple.filter(key => !keys.includes(key)), options)
+    },
+    extend(keys: readonly string[], options?: ButterEnumsExtendOptions): any {
+      assertNoCollisions(enumName, tuple, keys, options?.override)
+      return compose([...tuple, ...keys.filter(key => !base.isKey(key))], options?.name)
+    },
+    filterBy(predicate: (key: string) => boolean, options?: { name?: string }) {
+      return pick(tuple.filter(predicate), options)
+    }
+  }
+
+  return extendEnum(base, composition) as unknown as ButterTupleEnumInstance<T, TAliases>
+}
+
+/**
+ * Creates every member of a tuple enum except the composition methods,
+ * which return new enums and so need the named ButterTupleEnumInstance type
+ */
+function createButterTupleEnum<const T extends readonly string[], TAliases = {}>(
+  tuple: T,
+  options?: {
+    name?: string
+    validate?: ButterEnumsValidateMode
+    freeze?: ButterEnumsFreezeMode
+  } & ButterEnumsAliasOptions<T[number], any>
+) {
+  const enumName = options?.name ?? "ButterTupleEnum"
+  if (shouldValidate(options?.validate)) {
+    validateTupleKeys(enumName, tuple)
+  }
+  const $tuple = freezeEnum(tuple, options?.freeze)
   const $enum = Object.fromEntries(tuple.map(value => [value, value])) satisfies {
     [key: string]: string
   } as { [key in T[number]]: key }
+  const aliasResolver = makeAliasResolver(enumName, isKey, options)
+
+  /**
+   * Checks if the input is a key of the enum
+   *
+   * @param key The untrusted input to check
+   * @returns {boolean} True if the input is a key of the enum
+   */
+  function isKey(key: unknown): key is T[number] {
+    return typeof key === "string" && Object.prototype.hasOwnProperty.call($enum, key)
+  }
+
+  /**
+   * Parses the input into a key of the enum
+   *
+   * @param key The untrusted input to parse
+   * @returns {ButterEnumsParseResult<T[number]>} The key on success, or an error with "did you mean" suggestions
+   */
+  function safeParse(key: unknown): ButterEnumsParseResult<T[number]> {
+    const resolved = aliasResolver.resolve(key)
+    if (resolved !== undefined) {
+      return { success: true, value: resolved }
+    }
+    return {
+      success: false,
+      error: new ButterEnumsAssertionError(enumName, "key", key, suggestKeys(key, $tuple))
+    }
+  }
+
+  /**
+   * Resolves a key or alias to its canonical key
+   *
+   * @example
+   * ```typescript
+   * Statuses.normalize('canceled') // 'cancelled'
+   * Statuses.normalize('cancelled') // 'cancelled'
+   * ```
+   *
+   * @param input The untrusted input to normalize
+   * @returns {T[number]} The canonical key
+   * @throws {ButterEnumsAssertionError} If the input is neither a key nor an alias
+   */
+  function normalize<TInput extends T[number] | keyof TAliases>(
+    input: TInput
+  ): TInput extends keyof TAliases ? TAliases[TInput] : TInput
+  function normalize(input: unknown): T[number]
+  function normalize(input: unknown): unknown {
+    const result = safeParse(input)
+    if (!result.success) {
+      throw result.error
+    }
+    return result.value
+  }
+
+  /**
+   * Asserts that the input is a key of the enum
+   *
+   * @example
+   * ```typescript
+   * const color = Colors.assertKey(request.query.color) // 'red' | 'green' | 'blue'
+   * ```
+   *
+   * @param key The untrusted input to check
+   * @returns {T[number]} The input, narrowed to a key of the enum
+   * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+   */
+  function assertKey(key: unknown): T[number] {
+    if (!isKey(key)) {
+      throw new ButterEnumsAssertionError(enumName, "key", key, suggestKeys(key, $tuple))
+    }
+    return key
+  }
 
   return {
+    /**
+     * Distinguishes tuple enums from keyed enums at runtime
+     */
+    kind: "tuple" as const,
     /**
      * The tuple of strings
      *
@@ -38,7 +210,28 @@ export function ButterTupleEnum<const T extends readonly string[]>(tuple: T) {
      *
      * @type {{ [key in T[number]]: key; }} The enum object
      */
-    enum: deepFreeze($enum),
+    enum: freezeEnum($enum, options?.freeze),
+    /**
+     * The aliases, mapped to the keys they resolve to
+     *
+     * @type {Readonly<TAliases>}
+     */
+    aliases: aliasResolver.aliases as Readonly<TAliases>,
+    /**
+     * The deprecated keys
+     *
+     * @type {readonly T[number][]}
+     */
+    deprecated: aliasResolver.deprecated as readonly T[number][],
+    /**
+     * Checks if the input is a deprecated key
+     *
+     * @param key The untrusted input to check
+     * @returns {boolean} True if the input is a deprecated key
+     */
+    isDeprecated(key: unknown): key is T[number] {
+      return aliasResolver.deprecated.includes(key as T[number])
+    },
     /**
      * Same as tuple, but the type is an unordered union
      *
@@ -63,6 +256,10 @@ export function ButterTupleEnum<const T extends readonly string[]>(tuple: T) {
     getMany(indices: number[]): (string | undefined)[] {
       return indices.map(index => $tuple[index])
     },
+    ...makeOrdinalMethods($tuple as T, assertKey),
+    ...makeCollectionMethods<T[number], T[number]>(enumName, () => $tuple, key => key, assertKey),
+    ...makeCodecMethods<T[number]>(enumName, () => $tuple, assertKey),
+    ...makeQueryMethods($enum, $tuple, key => key),
     /**
      * The length of the tuple
      *
@@ -70,6 +267,268 @@ export function ButterTupleEnum<const T extends readonly string[]>(tuple: T) {
      */
     get length(): T['length'] {
       return $tuple.length
+    },
+    /**
+     * Converts the enum into options for a select input, in tuple order unless sorted
+     *
+     * @example
+     * ```typescript
+     * Colors.toOptions() // [{ label: 'red', value: 'red', disabled: false }, ...]
+     * Colors.toOptions({ label: color => color.toUpperCase(), sort: 'label' })
+     * ```
+     *
+     * @param options Configuration options
+     * @param options.label Creates the label of a key. Defaults to the key
+     * @param options.disabled Whether the option for a key is disabled
+     * @param options.sort `"tuple"` (default), `"label"`, or a comparator of options
+     * @returns {readonly ButterEnumOption<T[number]>[]} The frozen options
+     */
+    toOptions(options?: {
+      label?: (key: T[number]) => string
+      disabled?: (key: T[number]) => boolean
+      sort?: ButterEnumOptionSort<T[number]>
+    }): readonly ButterEnumOption<T[number]>[] {
+      return sortOptions(
+        $tuple.map((key: T[number]) => ({
+          label: options?.label?.(key) ?? key,
+          value: key,
+          disabled: options?.disabled?.(key) ?? false
+        })),
+        options?.sort
+      )
+    },
+    /**
+     * Gets the key an option was created from, e.g. when a form is submitted
+     *
+     * @param optionValue The value of the option
+     * @returns {T[number]} The key
+     * @throws {ButterEnumsAssertionError} If the value is not a key of the enum
+     */
+    fromOption(optionValue: unknown): T[number] {
+      return normalize(optionValue)
+    },
+    isKey,
+    /**
+     * Same as isKey, because the values of a tuple enum are its keys
+     *
+     * @param value The untrusted input to check
+     * @returns {boolean} True if the input is a value of the enum
+     */
+    isValue(value: unknown): value is T[number] {
+      return isKey(value)
+    },
+    assertKey,
+    /**
+     * Asserts that the input is a value of the enum
+     *
+     * @param value The untrusted input to check
+     * @returns {T[number]} The input, narrowed to a value of the enum
+     * @throws {ButterEnumsAssertionError} If the input is not a value of the enum
+     */
+    assertValue(value: unknown): T[number] {
+      if (!isKey(value)) {
+        throw new ButterEnumsAssertionError(enumName, "value", value)
+      }
+      return value
+    },
+    /**
+     * Parses the input into a key of the enum
+     *
+     * @example
+     * ```typescript
+     * Colors.parse('red') // 'red'
+     * Colors.parse('Red')
+     * // ButterEnumsAssertionError: Expected a key of ButterTupleEnum, but received "Red". Did you mean "red"?
+     * ```
+     *
+     * @param key The untrusted input to parse
+     * @returns {T[number]} The input, narrowed to a key of the enum
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    parse(key: unknown): T[number] {
+      const result = safeParse(key)
+      if (!result.success) {
+        throw result.error
+      }
+      return result.value
+    },
+    safeParse,
+    normalize,
+    /**
+     * Creates a Standard Schema (https://standardschema.dev) view of the enum,
+     * so any compliant validator can validate keys of the enum directly.
+     *
+     * @example
+     * ```typescript
+     * Colors.toStandardSchema()['~standard'].validate('red') // { value: 'red' }
+     * ```
+     *
+     * @returns {StandardSchemaV1<T[number]>} A schema that accepts and outputs a key of the enum
+     */
+    toStandardSchema(): StandardSchemaV1<T[number]> {
+      return makeStandardSchema(safeParse)
+    },
+    /**
+     * Calls the handler for the key, like an exhaustive switch statement.
+     *
+     * It fails to compile if a handler is missing or if there is a handler for a key that doesn't exist.
+     *
+     * @example
+     * ```typescript
+     * const hex = Colors.match(color, {
+     *   red: () => '#FF0000',
+     *   green: () => '#00FF00',
+     *   blue: () => '#0000FF',
+     * })
+     * ```
+     *
+     * @param key The key to match
+     * @param handlers A handler for every key, called with the key
+     * @returns The result of the handler
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    match<THandlers extends { [K in T[number]]: (key: K) => unknown }>(
+      key: T[number],
+      handlers: THandlers & { [K in Exclude<keyof THandlers, T[number]>]: never }
+    ): ReturnType<THandlers[T[number]]> {
+      const matched = assertKey(key)
+      return (handlers[matched] as (key: string) => any)(matched)
+    },
+    /**
+     * Calls the handler for the key, falling back to the required `_` handler
+     *
+     * @example
+     * ```typescript
+     * const isRed = Colors.matchPartial(color, {
+     *   red: () => true,
+     *   _: () => false,
+     * })
+     * ```
+     *
+     * @param key The key to match
+     * @param handlers Handlers for some keys, and a `_` handler for the rest
+     * @returns The result of the handler
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    matchPartial<
+      THandlers extends { [K in T[number]]?: (key: K) => unknown } & {
+        _: (key: T[number]) => unknown
+      }
+    >(
+      key: T[number],
+      handlers: THandlers & { [K in Exclude<keyof THandlers, T[number] | "_">]: never }
+    ): ReturnType<NonNullable<THandlers[keyof THandlers]>> {
+      const matched = assertKey(key)
+      const handler = Object.prototype.hasOwnProperty.call(handlers, matched)
+        ? handlers[matched]
+        : handlers._
+      return (handler as (key: string) => any)(matched)
     }
   }
 }
+
+/**
+ * A tuple enum, as returned by ButterTupleEnum
+ *
+ * @template T The tuple of strings
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export type ButterTupleEnumInstance<T extends readonly string[], TAliases = {}> = ReturnType<
+  typeof createButterTupleEnum<T, TAliases>
+> &
+  ButterTupleEnumComposition<T, TAliases>
+
+/**
+ * The methods of a tuple enum that create new tuple enums, keeping the tuple order
+ * and the aliases and deprecated keys that lead to one of their keys
+ *
+ * @template T The tuple of strings
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export interface ButterTupleEnumComposition<T extends readonly string[], TAliases = {}> {
+  /**
+   * Creates an enum with only the given keys
+   *
+   * @example
+   * ```typescript
+   * Colors.pick(['red', 'blue']).tuple // ['red', 'blue']
+   * ```
+   *
+   * @param keys The keys to keep
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsAssertionError} If a key is not in the enum
+   */
+  pick<const K extends T[number]>(
+    keys: readonly K[],
+    options?: { name?: string }
+  ): ButterTupleEnumInstance<FilterTuple<T, K>, SurvivingAliases<TAliases, K>>
+  /**
+   * Creates an enum without the given keys
+   *
+   * @example
+   * ```typescript
+   * Colors.omit(['green']).tuple // ['red', 'blue']
+   * ```
+   *
+   * @param keys The keys to remove
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsAssertionError} If a key is not in the enum
+   */
+  omit<const K extends T[number]>(
+    keys: readonly K[],
+    options?: { name?: string }
+  ): ButterTupleEnumInstance<
+    FilterTuple<T, Exclude<T[number], K>>,
+    SurvivingAliases<TAliases, Exclude<T[number], K>>
+  >
+  /**
+   * Creates an enum with more keys appended to the tuple.
+   *
+   * Keys that already exist fail to compile and throw, unless `override` is set,
+   * in which case they keep their position.
+   *
+   * @example
+   * ```typescript
+   * Colors.extend(['purple']).tuple // ['red', 'green', 'blue', 'purple']
+   * ```
+   *
+   * @param keys The keys to append
+   * @param options.override Whether existing keys are allowed
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   * @throws {ButterEnumsDefinitionError} If a key already exists and override is not set
+   */
+  extend<const TExtension extends readonly string[]>(
+    keys: TExtension & NoCollisions<T[number], TExtension[number]>,
+    options?: ButterEnumsExtendOptions & { override?: false }
+  ): ButterTupleEnumInstance<
+    [...T, ...TExtension],
+    SurvivingAliases<TAliases, T[number] | TExtension[number]>
+  >
+  extend<const TExtension extends readonly string[]>(
+    keys: TExtension,
+    options: ButterEnumsExtendOptions & { override: true }
+  ): ButterTupleEnumInstance<
+    [...T, ...FilterTuple<TExtension, Exclude<TExtension[number], T[number]>>],
+    SurvivingAliases<TAliases, T[number] | TExtension[number]>
+  >
+  /**
+   * Creates an enum with the keys that match a predicate.
+   * A type predicate narrows the keys of the new enum.
+   *
+   * @example
+   * ```typescript
+   * Colors.filterBy((color): color is 'red' | 'green' => color !== 'blue').tuple // ['red', 'green']
+   * ```
+   *
+   * @param predicate Tests each key
+   * @param options.name The name of the new enum. Defaults to the name of this enum
+   */
+  filterBy<K extends T[number]>(
+    predicate: (key: T[number]) => key is K,
+    options?: { name?: string }
+  ): ButterTupleEnumInstance<FilterTuple<T, K>, SurvivingAliases<TAliases, K>>
+  filterBy(
+    predicate: (key: T[number]) => boolean,
+    options?: { name?: string }
+  ): ButterTupleEnumInstance<T[number][], TAliases>
+}
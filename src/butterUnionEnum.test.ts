@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { ButterUnionEnum, InferVariant, payload } from "./butterUnionEnum";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+} from "./shared/errors";
+
+describe("ButterUnionEnum", () => {
+  const Events = ButterUnionEnum(
+    {
+      created: { label: "Created" },
+      failed: { label: "Failed", severity: "error" },
+      closed: { label: "Closed" },
+    },
+    {
+      name: "Events",
+      keyName: "type",
+      payloads: {
+        created: payload<{ id: string }>(),
+        failed: payload<{ reason: string; retries?: number }>(),
+      },
+    }
+  );
+  type Event = InferVariant<typeof Events>;
+
+  it("should still be a keyed enum with static metadata", () => {
+    expect(Events.kind).toBe("keyed");
+    expect(Events.keyName).toBe("type");
+    expect(Events.keys).toEqual(["created", "failed", "closed"]);
+    expect(Events.enum.failed).toEqual({
+      label: "Failed",
+      severity: "error",
+      type: "failed",
+    });
+  });
+
+  it("should create frozen instances with the discriminant", () => {
+    const failed = Events.create.failed({ reason: "timeout" });
+    expect(failed).toEqual({ reason: "timeout", type: "failed" });
+    expect(Object.isFrozen(failed)).toBe(true);
+    const type: "failed" = failed.type;
+    const reason: string = failed.reason;
+    expect([type, reason]).toEqual(["failed", "timeout"]);
+
+    expect(Events.create.closed()).toEqual({ type: "closed" });
+    // @ts-expect-error - the payload is required
+    Events.create.created();
+    // @ts-expect-error - the payload has no reason
+    Events.create.created({ reason: "timeout" });
+  });
+
+  it("should narrow instances with is", () => {
+    const event: Event = Events.create.created({ id: "42" });
+    expect(Events.is.failed(event)).toBe(false);
+    if (Events.is.created(event)) {
+      const id: string = event.id;
+      expect(id).toBe("42");
+    }
+    expect(Events.is.created({ type: "created" })).toBe(true);
+    expect(Events.is.created(null)).toBe(false);
+    expect(Events.isVariant({ type: "closed" })).toBe(true);
+    expect(Events.isVariant({ type: "constructor" })).toBe(false);
+  });
+
+  it("should fold over every variant", () => {
+    const summarize = (event: Event) =>
+      Events.fold(event, {
+        created: (created) => `Created ${created.id}`,
+        failed: (failed) => failed.retries ?? 0,
+        closed: () => null,
+      });
+    const result: string | number | null = summarize(
+      Events.create.failed({ reason: "timeout", retries: 2 })
+    );
+    expect(result).toBe(2);
+    expect(summarize(Events.create.created({ id: "42" }))).toBe("Created 42");
+    expect(() => summarize({ type: "deleted" } as unknown as Event)).toThrow(
+      ButterEnumsAssertionError
+    );
+
+    // @ts-expect-error - the closed handler is missing
+    Events.fold(Events.create.created({ id: "1" }), {
+      created: () => 1,
+      failed: () => 2,
+    });
+  });
+
+  it("should infer the union of the instances", () => {
+    const events: Event[] = [
+      Events.create.created({ id: "1" }),
+      Events.create.closed(),
+    ];
+    const failed: InferVariant<typeof Events, "failed"> = {
+      type: "failed",
+      reason: "timeout",
+    };
+    // @ts-expect-error - the payload of created is missing
+    const invalid: Event = { type: "created" };
+    expect([...events, failed, invalid].map((event) => event.type)).toEqual([
+      "created",
+      "closed",
+      "failed",
+      "created",
+    ]);
+  });
+
+  it("should reject payloads of variants that don't exist or include the keyName", () => {
+    expect(() =>
+      ButterUnionEnum(
+        { created: {} },
+        {
+          name: "Events",
+          // @ts-expect-error - deleted is not a variant
+          payloads: { deleted: payload<{ id: string }>() },
+        }
+      )
+    ).toThrow(ButterEnumsDefinitionError);
+    expect(() =>
+      ButterUnionEnum({ created: {} }, { payloads: { deleted: payload() } as any })
+    ).toThrow(expect.objectContaining({ code: "UNKNOWN_VARIANT" }));
+
+    ButterUnionEnum(
+      { created: {} },
+      {
+        keyName: "type",
+        // @ts-expect-error - the payload must not include the keyName
+        payloads: { created: payload<{ type: number }>() },
+      }
+    );
+  });
+});
@@ -0,0 +1,289 @@
+import {
+  ButterKeyedEnum,
+  ButterKeyedEnumDefinition,
+  ButterKeyedEnumOptions,
+} from "./butterKeyedEnum";
+import { ButterEnumsErrorMessage } from "./shared/error-message";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  describeInput,
+} from "./shared/errors";
+import { extendEnum } from "./shared/extend";
+import { shouldValidate } from "./shared/validate";
+
+declare const payloadType: unique symbol;
+
+/**
+ * Declares the payload of a variant of a union enum, created by payload
+ *
+ * @template TPayload The properties an instance of the variant carries
+ */
+export type ButterUnionPayload<TPayload extends object> = {
+  readonly [payloadType]: TPayload;
+};
+
+/**
+ * Declares the payload of a variant of a union enum. It only exists at compile time.
+ *
+ * @example
+ * ```typescript
+ * payloads: {
+ *   created: payload<{ id: string }>(),
+ *   failed: payload<{ reason: string }>(),
+ * }
+ * ```
+ *
+ * @template TPayload The properties an instance of the variant carries
+ * @returns {ButterUnionPayload<TPayload>} A marker for the payloads option
+ */
+export function payload<
+  TPayload extends object = {},
+>(): ButterUnionPayload<TPayload> {
+  return Object.freeze({}) as ButterUnionPayload<TPayload>;
+}
+
+/**
+ * An instance of a variant of a union enum: its payload, with the variant in the keyName property
+ *
+ * @template KeyName The name of the discriminant property
+ * @template TKey The variant
+ * @template TPayload The payload of the variant
+ */
+export type ButterUnionVariant<
+  KeyName extends string,
+  TKey,
+  TPayload,
+> = Readonly<{ [P in KeyName]: TKey } & TPayload>;
+
+/**
+ * Infers the union of the instances of a union enum, or of some of its variants
+ *
+ * @example
+ * ```typescript
+ * type Event = InferVariant<typeof Events> // { type: 'created', id: string } | { type: 'failed', reason: string }
+ * type Failed = InferVariant<typeof Events, 'failed'> // { type: 'failed', reason: string }
+ * ```
+ *
+ * @template TUnionEnum The union enum
+ * @template TKey The variants to infer. Defaults to every variant
+ */
+export type InferVariant<
+  TUnionEnum extends { create: { [key: string]: (...args: any[]) => unknown } },
+  TKey extends keyof TUnionEnum["create"] = keyof TUnionEnum["create"],
+> = ReturnType<TUnionEnum["create"][TKey]>;
+
+/**
+ * Butter Union Enum
+ *
+ * Union enums are keyed enums whose variants also carry a payload, i.e. discriminated unions.
+ * The keyName is the discriminant of the instances, and the static metadata of each variant stays on the enum.
+ *
+ * E.g.
+ *
+ * ```typescript
+ * const Events = ButterUnionEnum({
+ *   created: { label: 'Created' },
+ *   failed: { label: 'Failed' },
+ * }, {
+ *   keyName: 'type',
+ *   payloads: {
+ *     created: payload<{ id: string }>(),
+ *     failed: payload<{ reason: string }>(),
+ *   },
+ * })
+ *
+ * const event = Events.create.failed({ reason: 'timeout' }) // { reason: 'timeout', type: 'failed' }
+ * Events.is.failed(event) // true
+ * Events.fold(event, {
+ *   created: (created) => created.id,
+ *   failed: (failed) => failed.reason,
+ * }) // 'timeout'
+ * Events.enum[event.type].label // 'Failed'
+ * ```
+ *
+ * @template KeyName - The name of the discriminant property. Defaults to `"key"`.
+ * @template T - The original enum-like object whose keys are the variants, with their static metadata.
+ * @template TPayloads - The payload of each variant. Variants without one carry no payload.
+ * @template TTuple - The tuple returned by the tupleFactory.
+ *
+ * @param {T} enumObject - The original object representing the variants and their static metadata.
+ * @param {Object} options - The options of ButterKeyedEnum, and
+ * @param {TPayloads} [options.payloads] - The payload of each variant, declared with payload.
+ *
+ * @returns The keyed enum object with constructors, type guards and fold
+ *
+ * @throws {ButterEnumsDefinitionError} If the payloads reference a variant that doesn't exist, unless `validate` turns the checks off.
+ */
+export function ButterUnionEnum<
+  KeyName extends string = "key",
+  const T extends ButterKeyedEnumDefinition<T, KeyName> = {
+    [key: string]: any;
+  },
+  const TPayloads extends {
+    [K in keyof T]?: ButterUnionPayload<object>;
+  } = {},
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = [],
+>(
+  enumObject: T,
+  options?: ButterKeyedEnumOptions<KeyName, T, TTuple> & {
+    payloads?: TPayloads & PayloadsWithoutKeyName<TPayloads, KeyName>;
+  }
+) {
+  const enumName = options?.name ?? "ButterUnionEnum";
+  const base = ButterKeyedEnum<KeyName, T, TTuple>(enumObject, {
+    ...options,
+    name: enumName,
+  } as ButterKeyedEnumOptions<KeyName, T, TTuple>);
+  const keyName = base.keyName;
+  const variants = base.keys as readonly (keyof T & string)[];
+
+  type TKey = keyof T & string;
+  type TVariant<K extends TKey = TKey> = K extends unknown
+    ? ButterUnionVariant<KeyName, K, PayloadOf<TPayloads, K>>
+    : never;
+
+  if (shouldValidate(options?.validate)) {
+    for (const key of Object.keys(options?.payloads ?? {})) {
+      if (!base.isKey(key)) {
+        throw new ButterEnumsDefinitionError(
+          "UNKNOWN_VARIANT",
+          enumName,
+          `${enumName} has a payload for ${describeInput(key)}, which is not a variant`
+        );
+      }
+    }
+  }
+
+  /**
+   * Gets the variant of an instance, if it's an instance of the enum
+   */
+  function variantOf(instance: unknown): TKey | undefined {
+    if (typeof instance !== "object" || instance === null) {
+      return undefined;
+    }
+    const key = (instance as Record<string, unknown>)[keyName];
+    return base.isKey(key) ? (key as TKey) : undefined;
+  }
+
+  const create = Object.freeze(
+    Object.fromEntries(
+      variants.map((key) => [
+        key,
+        (variantPayload?: object) =>
+          Object.freeze({ ...variantPayload, [keyName]: key }),
+      ])
+    )
+  ) as ButterUnionConstructors<KeyName, T, TPayloads>;
+
+  const is = Object.freeze(
+    Object.fromEntries(
+      variants.map((key) => [
+        key,
+        (instance: unknown) => variantOf(instance) === key,
+      ])
+    )
+  ) as {
+    readonly [K in TKey]: (instance: unknown) => instance is TVariant<K>;
+  };
+
+  return extendEnum(base, {
+    /**
+     * Creates an instance of a variant from its payload, with the variant in the keyName property.
+     * Instances are frozen, but the objects in their payload are left as they are.
+     *
+     * @example
+     * ```typescript
+     * Events.create.failed({ reason: 'timeout' }) // { reason: 'timeout', type: 'failed' }
+     * Events.create.closed() // { type: 'closed' }, for variants without a payload
+     * ```
+     */
+    create,
+    /**
+     * Checks if the input is an instance of a variant, by its keyName property.
+     * The payload is not checked at runtime.
+     *
+     * @example
+     * ```typescript
+     * if (Events.is.failed(event)) {
+     *   event.reason // string
+     * }
+     * ```
+     */
+    is,
+    /**
+     * Checks if the input is an instance of any variant, by its keyName property
+     *
+     * @param instance The untrusted input to check
+     * @returns {boolean} True if the keyName property of the input is a variant
+     */
+    isVariant(instance: unknown): instance is TVariant {
+      return variantOf(instance) !== undefined;
+    },
+    /**
+     * Calls the handler for the variant of an instance, like an exhaustive switch statement.
+     *
+     * It fails to compile if a handler is missing or if there is a handler for a variant that doesn't exist.
+     *
+     * @example
+     * ```typescript
+     * const message = Events.fold(event, {
+     *   created: (created) => `Created ${created.id}`,
+     *   failed: (failed) => `Failed: ${failed.reason}`,
+     * })
+     * ```
+     *
+     * @param instance The instance to fold
+     * @param handlers A handler for every variant, called with the instance narrowed to that variant
+     * @returns The result of the handler
+     * @throws {ButterEnumsAssertionError} If the input is not an instance of a variant
+     */
+    fold<
+      THandlers extends {
+        [K in TKey]: (instance: TVariant<K>) => unknown;
+      },
+    >(
+      instance: TVariant,
+      handlers: THandlers & {
+        [K in Exclude<keyof THandlers, TKey>]: never;
+      }
+    ): ReturnType<THandlers[TKey]> {
+      const key = variantOf(instance);
+      if (key === undefined) {
+        throw new ButterEnumsAssertionError(enumName, "value", instance);
+      }
+      return (handlers[key] as (instance: unknown) => any)(instance);
+    },
+  });
+}
+
+/**
+ * The constructors of a union enum, which take the payload of their variant
+ */
+type ButterUnionConstructors<KeyName extends string, T, TPayloads> = {
+  readonly [K in keyof T & string]: {} extends PayloadOf<TPayloads, K>
+    ? (
+        payload?: PayloadOf<TPayloads, K>
+      ) => ButterUnionVariant<KeyName, K, PayloadOf<TPayloads, K>>
+    : (
+        payload: PayloadOf<TPayloads, K>
+      ) => ButterUnionVariant<KeyName, K, PayloadOf<TPayloads, K>>;
+};
+
+/**
+ * Utility type for the payload of a variant, which is empty when it isn't declared
+ */
+type PayloadOf<TPayloads, K> = K extends keyof TPayloads
+  ? TPayloads[K] extends ButterUnionPayload<infer TPayload>
+    ? TPayload
+    : {}
+  : {};
+
+/**
+ * Shows an error on the payloads that include the keyName, which would be overwritten by the discriminant
+ */
+type PayloadsWithoutKeyName<TPayloads, KeyName extends string> = {
+  [K in keyof TPayloads]: KeyName extends keyof PayloadOf<TPayloads, K>
+    ? ButterEnumsErrorMessage<"A payload must not include the keyName">
+    : TPayloads[K];
+};
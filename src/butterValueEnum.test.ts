@@ -0,0 +1,126 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { ButterValueEnum } from "./butterValueEnum";
+import { ButterEnumsAssertionError, ButterEnumsDefinitionError } from "./shared/errors";
+
+describe("ButterValueEnum", () => {
+  const UserStatus = ButterValueEnum(
+    { active: 1, suspended: 2, deleted: 9 },
+    {
+      name: "UserStatus",
+      tupleFactory: (enumObject) => [
+        enumObject.active,
+        enumObject.suspended,
+        enumObject.deleted,
+      ],
+    }
+  );
+
+  it("should map keys to their literal values", () => {
+    expect(UserStatus.enum.active).toBe(1);
+    expect(Object.isFrozen(UserStatus.enum)).toBe(true);
+    expectTypeOf(UserStatus.enum.deleted).toEqualTypeOf<9>();
+  });
+
+  it("should convert keys to values and back with literal types", () => {
+    expect(UserStatus.toValue("suspended")).toBe(2);
+    expect(UserStatus.fromValue(9)).toBe("deleted");
+    expectTypeOf(UserStatus.toValue("suspended")).toEqualTypeOf<2>();
+    expectTypeOf(UserStatus.fromValue(9)).toEqualTypeOf<"deleted">();
+    expectTypeOf(UserStatus.fromValue(1 as 1 | 2)).toEqualTypeOf<
+      "active" | "suspended"
+    >();
+    expectTypeOf(UserStatus.fromValue(9 as unknown)).toEqualTypeOf<
+      "active" | "suspended" | "deleted"
+    >();
+  });
+
+  it("should throw on unknown keys and values", () => {
+    expect(() => UserStatus.fromValue(3)).toThrow(ButterEnumsAssertionError);
+    expect(() => UserStatus.fromValue("1")).toThrow(
+      'Expected a value of UserStatus, but received "1"'
+    );
+    expect(() => UserStatus.toValue("activ" as "active")).toThrow(
+      'Expected a key of UserStatus, but received "activ". Did you mean "active"?'
+    );
+    expect(UserStatus.keyOf(3)).toBeUndefined();
+    expect(UserStatus.get("constructor")).toBeUndefined();
+  });
+
+  it("should carry the tuple, keys and values surface", () => {
+    expect(UserStatus.kind).toBe("value");
+    expect(UserStatus.keys).toEqual(["active", "suspended", "deleted"]);
+    expect(UserStatus.values).toEqual([1, 2, 9]);
+    expect(UserStatus.tuple).toEqual([1, 2, 9]);
+    expect(UserStatus.orderedKeys).toEqual(["active", "suspended", "deleted"]);
+    expect(UserStatus.next("active")).toBe("suspended");
+    expect(UserStatus.record((value, key) => `${key}=${value}`)).toEqual({
+      active: "active=1",
+      suspended: "suspended=2",
+      deleted: "deleted=9",
+    });
+    expectTypeOf(UserStatus.orderedKeys).toEqualTypeOf<
+      Readonly<["active", "suspended", "deleted"]>
+    >();
+  });
+
+  it("should check and assert keys and values", () => {
+    expect(UserStatus.isKey("active")).toBe(true);
+    expect(UserStatus.isValue(2)).toBe(true);
+    expect(UserStatus.isValue("2")).toBe(false);
+    expect(UserStatus.assertValue(9)).toBe(9);
+    expect(UserStatus.parse("deleted")).toBe("deleted");
+    expect(UserStatus.safeParse("gone").success).toBe(false);
+  });
+
+  it("should support string and bigint values", () => {
+    const Currency = ButterValueEnum({ euro: "EUR", dollar: "USD" });
+    const Limits = ButterValueEnum({ small: 10n, large: 2n ** 64n });
+    expect(Currency.fromValue("USD")).toBe("dollar");
+    expect(Limits.fromValue(2n ** 64n)).toBe("large");
+    expect(Limits.isValue(10)).toBe(false);
+    expectTypeOf(Currency.toValue("euro")).toEqualTypeOf<"EUR">();
+    expectTypeOf(Limits.toValue("small")).toEqualTypeOf<10n>();
+  });
+
+  it("should require a tupleFactory for tuple dependent features", () => {
+    const Currency = ButterValueEnum({ euro: "EUR", dollar: "USD" });
+    expect(Currency.hasTuple).toBe(false);
+    expect(() => Currency.tuple).toThrow(ButterEnumsDefinitionError);
+    expect(Currency.keys).toEqual(["euro", "dollar"]);
+  });
+
+  it("should reject duplicate values", () => {
+    expect(() =>
+      // @ts-expect-error - the values must be unique
+      ButterValueEnum({ active: 1, enabled: 1 }, { name: "Broken" })
+    ).toThrow('Broken has 1 as the value of both "active" and "enabled"');
+  });
+
+  it("should reject tuples that miss, repeat or invent a value", () => {
+    expect(() =>
+      ButterValueEnum(
+        { active: 1, suspended: 2 },
+        // @ts-expect-error - the tuple must include every value
+        { tupleFactory: (enumObject) => [enumObject.active] }
+      )
+    ).toThrow('The tupleFactory of ButterValueEnum is missing "suspended"');
+    expect(() =>
+      ButterValueEnum(
+        { active: 1, suspended: 2 },
+        {
+          name: "UserStatus",
+          tupleFactory: (enumObject) =>
+            [enumObject.active, enumObject.active, enumObject.suspended] as any,
+        }
+      )
+    ).toThrow(expect.objectContaining({ code: "DUPLICATE_KEY" }));
+    expect(() =>
+      ButterValueEnum(
+        { active: 1, suspended: 2 },
+        { tupleFactory: () => [1, 3] as any }
+      )
+    ).toThrow(
+      "The tupleFactory of ButterValueEnum returns 3 at index 1, which is not a value of the enum object it was given"
+    );
+  });
+});
@@ -0,0 +1,434 @@
+import { makeCollectionMethods } from "./shared/collections";
+import { ButterEnumsErrorMessage } from "./shared/error-message";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  ButterEnumsParseResult,
+  describeInput,
+} from "./shared/errors";
+import { makeOrdinalMethods } from "./shared/ordinal";
+import { suggestKeys } from "./shared/suggest";
+import { validateTupleValues } from "./shared/validate";
+
+/**
+ * The values a value enum can map its keys to
+ */
+export type ButterValueEnumValue = number | string | bigint;
+
+/**
+ * Butter Value Enum
+ *
+ * Value enums map each key to a primitive value, e.g. the integer a status is stored as in a database.
+ * They convert back and forth between keys and values with exact literal types,
+ * and the values must be unique, which is checked at compile time and at runtime.
+ *
+ * E.g.
+ *
+ * ```typescript
+ * const UserStatus = ButterValueEnum({
+ *   active: 1,
+ *   suspended: 2,
+ * }, {
+ *   tupleFactory: (enumObject) => [enumObject.active, enumObject.suspended],
+ * })
+ *
+ * UserStatus.enum.active // 1
+ * UserStatus.toValue('suspended') // 2
+ * UserStatus.fromValue(1) // 'active'
+ * UserStatus.fromValue(row.status) // 'active' | 'suspended'
+ * UserStatus.tuple // [1, 2]
+ * ```
+ *
+ * @template T The original object mapping keys to numbers, strings or bigints
+ * @template TTuple The tuple returned by the tupleFactory
+ * @param enumObject The original object mapping keys to values
+ * @param options Configuration options
+ * @param options.name The name of the enum, used in error messages. Defaults to `"ButterValueEnum"`
+ * @param options.tupleFactory Takes the enum object and returns every value in order, for tuple support and ordered keys
+ * @returns The value enum object with helper methods
+ * @throws {ButterEnumsDefinitionError} If two keys have the same value, or the tuple omits, duplicates or invents a value
+ */
+export function ButterValueEnum<
+  const T extends { [key: string]: ButterValueEnumValue },
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = [],
+>(
+  enumObject: ButterValueEnumDefinition<T>,
+  options?: ButterValueEnumOptions<T, TTuple>
+) {
+  const enumName = options?.name ?? "ButterValueEnum";
+  const $enum = Object.freeze({ ...enumObject }) as Readonly<T>;
+  const $keys = Object.freeze(Object.keys($enum)) as readonly (keyof T &
+    string)[];
+  const $values = Object.freeze(Object.values($enum)) as readonly T[keyof T][];
+
+  const keysByValue = new Map<unknown, keyof T & string>();
+  for (const key of $keys) {
+    const value = $enum[key];
+    const duplicate = keysByValue.get(value);
+    if (duplicate !== undefined) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_VALUE",
+        enumName,
+        `${enumName} has ${describeInput(value)} as the value of both ${describeInput(duplicate)} and ${describeInput(key)}`
+      );
+    }
+    keysByValue.set(value, key);
+  }
+
+  const $tuple = options?.tupleFactory
+    ? (Object.freeze(options.tupleFactory($enum)) as TTuple)
+    : ([] as never);
+  if (options?.tupleFactory) {
+    validateTupleValues(enumName, $enum, $tuple);
+  }
+  const $orderedKeys = Object.freeze(
+    ($tuple as readonly T[keyof T][]).map((value) => fromValue(value))
+  ) as unknown as TOrderedKeys;
+
+  type TKey = keyof T & string;
+  type TOrderedKeys = {
+    [TIndex in keyof TTuple]: KeyOfValue<T, TTuple[TIndex]>;
+  };
+
+  /**
+   * Throws if the enum has no tuple to take its order from
+   */
+  function assertTuple(purpose: string) {
+    if ($tuple.length === 0) {
+      throw new ButterEnumsDefinitionError(
+        "MISSING_TUPLE_FACTORY",
+        enumName,
+        `${enumName} has no tuple. Provide tupleFactory if you want ${purpose}, and ensure it's not empty`
+      );
+    }
+  }
+
+  /**
+   * Checks if the input is a key of the enum
+   *
+   * @param key The untrusted input to check
+   * @returns {boolean} True if the input is a key of the enum
+   */
+  function isKey(key: unknown): key is TKey {
+    return (
+      typeof key === "string" &&
+      Object.prototype.hasOwnProperty.call($enum, key)
+    );
+  }
+
+  /**
+   * Checks if the input is a value of the enum. Values are compared strictly, so `"1"` is not `1`
+   *
+   * @param value The untrusted input to check
+   * @returns {boolean} True if the input is a value of the enum
+   */
+  function isValue(value: unknown): value is T[keyof T] {
+    return keysByValue.has(value);
+  }
+
+  /**
+   * Asserts that the input is a key of the enum
+   *
+   * @param key The untrusted input to check
+   * @returns {keyof T} The input, narrowed to a key of the enum
+   * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+   */
+  function assertKey(key: unknown): TKey {
+    if (!isKey(key)) {
+      throw new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        key,
+        suggestKeys(key, $keys)
+      );
+    }
+    return key;
+  }
+
+  /**
+   * Parses the input into a key of the enum
+   *
+   * @param key The untrusted input to parse
+   * @returns {ButterEnumsParseResult<keyof T>} The key on success, or an error with "did you mean" suggestions
+   */
+  function safeParse(key: unknown): ButterEnumsParseResult<TKey> {
+    if (isKey(key)) {
+      return { success: true, value: key };
+    }
+    return {
+      success: false,
+      error: new ButterEnumsAssertionError(
+        enumName,
+        "key",
+        key,
+        suggestKeys(key, $keys)
+      ),
+    };
+  }
+
+  /**
+   * Gets the key of a value, e.g. when reading a row from a database
+   *
+   * @example
+   * ```typescript
+   * UserStatus.fromValue(1) // 'active'
+   * UserStatus.fromValue(row.status) // 'active' | 'suspended'
+   * ```
+   *
+   * @param value The value to look up
+   * @returns {KeyOfValue<T, TValue>} The key with that value
+   * @throws {ButterEnumsAssertionError} If the input is not a value of the enum
+   */
+  function fromValue<TValue extends T[keyof T]>(
+    value: TValue
+  ): KeyOfValue<T, TValue>;
+  function fromValue(value: unknown): TKey;
+  function fromValue(value: unknown): TKey {
+    const key = keysByValue.get(value);
+    if (key === undefined) {
+      throw new ButterEnumsAssertionError(enumName, "value", value);
+    }
+    return key;
+  }
+
+  return {
+    /// TUPLE DEPENDENT
+    ///
+
+    /**
+     * Whether a tupleFactory was provided, i.e. whether the tuple dependent features are available
+     *
+     * @type {TTuple extends [] ? false : true}
+     */
+    hasTuple: ($tuple.length > 0) as TTuple extends [] ? false : true,
+    /**
+     * An ordered array of values as specified by the tupleFactory function
+     *
+     * @type {TTuple} The tuple of values in the order defined by tupleFactory
+     * @throws {ButterEnumsDefinitionError} If tupleFactory was not provided
+     */
+    get tuple(): TTuple extends []
+      ? ButterEnumsErrorMessage<"Provide tupleFactory if you want a tuple, and ensure it's not empty">
+      : Readonly<TTuple> {
+      assertTuple("a tuple");
+      return $tuple as any;
+    },
+    /**
+     * An ordered array of keys as specified by the tupleFactory function
+     *
+     * @type {TTuple extends [] ? ButterEnumsErrorMessage<"Provide tupleFactory if you want ordered keys, and ensure it's not empty"> : { [TIndex in keyof TTuple]: KeyOfValue<T, TTuple[TIndex]>; }} The ordered keys of the enum
+     * @throws {ButterEnumsDefinitionError} If tupleFactory was not provided
+     */
+    get orderedKeys(): TTuple extends []
+      ? ButterEnumsErrorMessage<"Provide tupleFactory if you want ordered keys, and ensure it's not empty">
+      : Readonly<TOrderedKeys> {
+      assertTuple("ordered keys");
+      return $orderedKeys as any;
+    },
+
+    ...makeOrdinalMethods(
+      $orderedKeys,
+      assertKey as (key: unknown) => TOrderedKeys[number],
+      () => assertTuple("ordinal navigation")
+    ),
+
+    ...makeCollectionMethods<TKey, T[keyof T]>(
+      enumName,
+      () => ($tuple.length > 0 ? ($orderedKeys as readonly TKey[]) : $keys),
+      (key) => $enum[key],
+      assertKey
+    ),
+
+    /// NON-TUPLE DEPENDENT
+
+    /**
+     * Distinguishes value enums from tuple and keyed enums at runtime
+     */
+    kind: "value" as const,
+    /**
+     * The enum object
+     *
+     * @type {Readonly<T>} The keys mapped to their values
+     */
+    enum: $enum,
+    /**
+     * The keys of the enum, in insertion order
+     *
+     * @type {(keyof T)[]} The keys of the enum
+     */
+    keys: $keys,
+    /**
+     * The values of the enum, in insertion order
+     *
+     * @type {T[keyof T][]} The values of the enum
+     */
+    values: $values,
+    /**
+     * Gets a value by key
+     *
+     * @param key The key to look up
+     * @returns {T[TKey] | undefined} The value, or undefined if the key is not in the enum
+     */
+    get<TGetKey extends TKey | (string & {})>(
+      key: TGetKey
+    ): TGetKey extends TKey ? T[TGetKey] : T[keyof T] | undefined {
+      return (isKey(key) ? $enum[key] : undefined) as any;
+    },
+    /**
+     * Gets the value of a key, e.g. when writing a row to a database
+     *
+     * @example
+     * ```typescript
+     * UserStatus.toValue('active') // 1
+     * ```
+     *
+     * @param key The key to convert
+     * @returns {T[TValueKey]} The value of the key
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    toValue<TValueKey extends TKey>(key: TValueKey): T[TValueKey] {
+      return $enum[assertKey(key) as TValueKey];
+    },
+    fromValue,
+    /**
+     * Converts the enum into an object shaped like a native TypeScript enum,
+     * with a reverse mapping from each number value to its key, for code that still expects one
+     *
+     * @example
+     * ```typescript
+     * UserStatus.toNativeEnumLike() // { active: 1, suspended: 2, 1: 'active', 2: 'suspended' }
+     * ```
+     *
+     * @returns {NativeEnumLike<T>} The frozen enum-like object
+     */
+    toNativeEnumLike(): NativeEnumLike<T> {
+      return Object.freeze({
+        ...$enum,
+        ...Object.fromEntries(
+          $keys
+            .filter((key) => typeof $enum[key] === "number")
+            .map((key) => [$enum[key], key])
+        ),
+      }) as NativeEnumLike<T>;
+    },
+    /**
+     * Gets the key of a value without throwing
+     *
+     * @param value The untrusted value to look up
+     * @returns {keyof T | undefined} The key with that value, or undefined if the input is not a value of the enum
+     */
+    keyOf(value: unknown): TKey | undefined {
+      return keysByValue.get(value);
+    },
+    isKey,
+    isValue,
+    assertKey,
+    /**
+     * Asserts that the input is a value of the enum
+     *
+     * @param value The untrusted input to check
+     * @returns {T[keyof T]} The input, narrowed to a value of the enum
+     * @throws {ButterEnumsAssertionError} If the input is not a value of the enum
+     */
+    assertValue(value: unknown): T[keyof T] {
+      if (!isValue(value)) {
+        throw new ButterEnumsAssertionError(enumName, "value", value);
+      }
+      return value;
+    },
+    /**
+     * Parses the input into a key of the enum
+     *
+     * @param key The untrusted input to parse
+     * @returns {keyof T} The input, narrowed to a key of the enum
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    parse(key: unknown): TKey {
+      const result = safeParse(key);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value;
+    },
+    safeParse,
+  };
+}
+
+/**
+ * The object a value enum is created from, with duplicated literal values turned into compile errors
+ *
+ * @template T The original object mapping keys to values
+ */
+export type ButterValueEnumDefinition<T> = T &
+  ([DuplicatedValues<T>] extends [never]
+    ? unknown
+    : {
+        [K in DuplicatedValues<T>]: ButterEnumsErrorMessage<"The values must be unique across keys">;
+      });
+
+/**
+ * The options of ButterValueEnum
+ *
+ * @template T The original object mapping keys to values
+ * @template TTuple The tuple returned by the tupleFactory
+ */
+export type ButterValueEnumOptions<
+  T extends { [key: string]: ButterValueEnumValue },
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [],
+> = {
+  /**
+   * The name of the enum, used in error messages
+   */
+  name?: string;
+  /**
+   * A factory function that takes the enum object and returns a tuple of its values.
+   * It must include all values, for the same reason as the tupleFactory of ButterKeyedEnum.
+   *
+   * @param enumObject The enum object
+   * @returns A tuple of values from the enum object
+   */
+  tupleFactory?: (
+    enumObject: Readonly<T>
+  ) => [T[keyof T]] extends [NonNullable<TTuple>[number]]
+    ? NonNullable<TTuple>
+    : ButterEnumsErrorMessage<"You must include all values in the tuple">;
+};
+
+/**
+ * An object shaped like a native TypeScript enum: the keys mapped to their values,
+ * and each number value mapped back to its key
+ *
+ * @template T The object mapping keys to values
+ */
+export type NativeEnumLike<T> = Readonly<T> & {
+  readonly [K in keyof T as T[K] extends number ? T[K] : never]: K;
+};
+
+/**
+ * Utility type that finds the keys whose literal value is also the literal value of another key.
+ * Widened values, e.g. `number`, can't be compared, and are only checked at runtime.
+ */
+type DuplicatedValues<T> = {
+  [K in keyof T]: T[K] extends LiteralValues<T, Exclude<keyof T, K>> ? K : never;
+}[keyof T];
+
+/**
+ * Utility type that keeps the values of some keys that are literals
+ */
+type LiteralValues<T, TKeys extends keyof T> = {
+  [K in TKeys]: number extends T[K]
+    ? never
+    : string extends T[K]
+      ? never
+      : bigint extends T[K]
+        ? never
+        : T[K];
+}[TKeys];
+
+/**
+ * Utility type that finds the keys with the given values
+ */
+type KeyOfValue<T, TValue> = {
+  [K in keyof T]: T[K] extends TValue ? K : never;
+}[keyof T] &
+  string;
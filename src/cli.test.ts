@@ -0,0 +1,67 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCli } from "./cli";
+
+describe("butter-enums generate", () => {
+  let directory: string;
+  let messages: string[];
+  const io = {
+    log: (message: string) => messages.push(message),
+    error: (message: string) => messages.push(message),
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "butter-enums-"));
+    messages = [];
+    writeFileSync(join(directory, "plan-tiers.yaml"), "- key: free\n  label: Free\n");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should write the module next to the input", () => {
+    const input = join(directory, "plan-tiers.yaml");
+    expect(runCli(["generate", input], io)).toBe(0);
+    const output = readFileSync(join(directory, "plan-tiers.ts"), "utf8");
+    expect(output).toContain("export const PlanTiers = ButterKeyedEnum(");
+    expect(output).toContain("from plan-tiers.yaml.");
+  });
+
+  it("should fail the check when the module is missing or stale", () => {
+    const input = join(directory, "plan-tiers.yaml");
+    const out = join(directory, "plans.ts");
+    expect(runCli(["generate", input, "--out", out, "--check"], io)).toBe(1);
+    expect(messages.pop()).toContain("is out of date");
+
+    expect(runCli(["generate", input, "--out", out], io)).toBe(0);
+    expect(runCli(["generate", input, "--out", out, "--check"], io)).toBe(0);
+    expect(messages.pop()).toBe(`${out} is up to date`);
+
+    writeFileSync(input, "- key: free\n  label: Free plan\n");
+    expect(runCli(["generate", input, "--out", out, "--check"], io)).toBe(1);
+  });
+
+  it("should report errors instead of throwing", () => {
+    writeFileSync(join(directory, "codes.txt"), "");
+    expect(runCli(["generate", join(directory, "codes.txt")], io)).toBe(1);
+    expect(messages.pop()).toContain("pass --format json");
+    expect(runCli(["generate", join(directory, "missing.json")], io)).toBe(1);
+    expect(runCli(["build"], io)).toBe(1);
+    expect(messages.pop()).toContain("Usage: butter-enums generate");
+  });
+
+  it("should explain that older versions of Node are not supported", async () => {
+    vi.resetModules();
+    vi.doMock("util", () => ({ parseArgs: undefined }));
+    try {
+      const { runCli: runWithoutParseArgs } = await import("./cli");
+      expect(runWithoutParseArgs(["generate", "plans.yaml"], io)).toBe(1);
+      expect(messages.pop()).toMatch(/^butter-enums generate needs Node 18.3 or later/);
+    } finally {
+      vi.doUnmock("util");
+    }
+  });
+});
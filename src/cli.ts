@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { basename, extname } from "path";
+import * as util from "util";
+import { generateEnumModule, GenerateEnumFormat } from "./generate";
+
+const USAGE = `Usage: butter-enums generate <input> [options]
+
+Generates a TypeScript module that exports a ButterKeyedEnum from a JSON, YAML or CSV file.
+
+Options:
+  --out <file>            The module to write. Defaults to the input with a .ts extension
+  --name <name>           The name of the enum. Defaults to the name of the input in PascalCase
+  --key <column>          The column with the keys. Defaults to "key"
+  --description <column>  The column with the JSDoc of each key
+  --format <format>       json, yaml or csv. Defaults to the extension of the input
+  --import <module>       The module to import ButterKeyedEnum from. Defaults to "butter-enums"
+  --check                 Fail instead of writing when the module is missing or stale
+  --help                  Show this message`;
+
+const FORMATS: { [extension: string]: GenerateEnumFormat } = {
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".csv": "csv",
+};
+
+/**
+ * Runs the butter-enums command line, without touching the network
+ *
+ * @param args The arguments, without the node executable and the script
+ * @param io Where to print messages and errors. Defaults to the console
+ * @returns The exit code: 0 on success, 1 when the module is stale or an error occurred
+ */
+export function runCli(
+  args: readonly string[],
+  io: Pick<Console, "log" | "error"> = console
+): number {
+  // parseArgs is the only reason the command line needs Node 18.3, the library itself doesn't
+  if (typeof util.parseArgs !== "function") {
+    io.error(
+      `butter-enums generate needs Node 18.3 or later, but this is Node ${process.versions.node}`
+    );
+    return 1;
+  }
+  try {
+    const { values, positionals } = util.parseArgs({
+      args: [...args],
+      allowPositionals: true,
+      options: {
+        out: { type: "string" },
+        name: { type: "string" },
+        key: { type: "string" },
+        description: { type: "string" },
+        format: { type: "string" },
+        import: { type: "string" },
+        check: { type: "boolean" },
+        help: { type: "boolean" },
+      },
+    });
+    const [command, input, ...extra] = positionals;
+    if (values.help) {
+      io.log(USAGE);
+      return 0;
+    }
+    if (command !== "generate" || input === undefined || extra.length > 0) {
+      io.error(USAGE);
+      return 1;
+    }
+
+    const extension = extname(input).toLowerCase();
+    const format = values.format ?? FORMATS[extension];
+    if (format !== "json" && format !== "yaml" && format !== "csv") {
+      io.error(
+        `Can't tell the format of ${input}, pass --format json, --format yaml or --format csv`
+      );
+      return 1;
+    }
+    const out = values.out ?? input.slice(0, input.length - extension.length) + ".ts";
+    const generated = generateEnumModule(readFileSync(input, "utf8"), {
+      format,
+      name: values.name ?? pascalCase(basename(input, extname(input))),
+      key: values.key,
+      description: values.description,
+      sourceName: basename(input),
+      importFrom: values.import,
+    });
+
+    if (values.check) {
+      if (!existsSync(out) || readFileSync(out, "utf8") !== generated) {
+        io.error(
+          `${out} is out of date with ${input}, run butter-enums generate without --check to update it`
+        );
+        return 1;
+      }
+      io.log(`${out} is up to date`);
+      return 0;
+    }
+    writeFileSync(out, generated);
+    io.log(`Generated ${out} from ${input}`);
+    return 0;
+  } catch (error) {
+    io.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+/**
+ * Converts a file name like `plan-tiers` into an identifier like `PlanTiers`
+ */
+function pascalCase(name: string): string {
+  const identifier = name
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { ButterKeyedEnum } from "./butterKeyedEnum";
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { compareEnums, snapshotEnum } from "./compat";
+
+describe("compat", () => {
+  const Levels = ButterTupleEnum(["low", "high"]);
+
+  const Fruits = ButterKeyedEnum(
+    {
+      banana: { sweetness: 8, name: "Banana" },
+      apple: { sweetness: 7, name: "Apple" },
+    },
+    { tupleFactory: (fruits) => [fruits.apple, fruits.banana] }
+  );
+
+  it("should write a stable snapshot of a tuple enum", () => {
+    expect(JSON.parse(snapshotEnum(Levels))).toEqual({
+      version: 1,
+      kind: "tuple",
+      ordered: true,
+      keys: ["low", "high"],
+    });
+  });
+
+  it("should write a stable snapshot of a keyed enum with sorted properties", () => {
+    expect(snapshotEnum(Fruits)).toBe(
+      [
+        "{",
+        '  "keyName": "key",',
+        '  "keys": [',
+        '    "apple",',
+        '    "banana"',
+        "  ],",
+        '  "kind": "keyed",',
+        '  "metadata": {',
+        '    "apple": {',
+        '      "name": "Apple",',
+        '      "sweetness": 7',
+        "    },",
+        '    "banana": {',
+        '      "name": "Banana",',
+        '      "sweetness": 8',
+        "    }",
+        "  },",
+        '  "ordered": true,',
+        '  "version": 1',
+        "}",
+        "",
+      ].join("\n")
+    );
+    expect(JSON.parse(snapshotEnum(ButterKeyedEnum({ a: {} }))).ordered).toBe(
+      false
+    );
+  });
+
+  it("should report no changes between equal enums", () => {
+    expect(compareEnums(snapshotEnum(Fruits), Fruits)).toEqual({
+      policy: "wire",
+      changes: [],
+      breakingChanges: [],
+      isBreaking: false,
+    });
+  });
+
+  it("should classify added keys by policy", () => {
+    const appended = ButterTupleEnum(["low", "high", "critical"]);
+    const inserted = ButterTupleEnum(["low", "medium", "high"]);
+
+    expect(compareEnums(Levels, appended, { policy: "ordinal" }).changes).toEqual([
+      { type: "added", key: "critical", breaking: false },
+    ]);
+    expect(compareEnums(Levels, inserted, { policy: "ordinal" }).changes).toEqual([
+      { type: "added", key: "medium", breaking: true },
+    ]);
+    expect(compareEnums(Levels, inserted, { policy: "storage" }).isBreaking).toBe(
+      false
+    );
+  });
+
+  it("should classify removed and reordered keys by policy", () => {
+    const reordered = ButterTupleEnum(["high", "low"]);
+    expect(compareEnums(Levels, reordered, { policy: "wire" }).changes).toEqual([
+      { type: "reordered", key: "low", breaking: false },
+    ]);
+    expect(compareEnums(Levels, reordered, { policy: "ordinal" }).isBreaking).toBe(
+      true
+    );
+
+    const removed = compareEnums(Levels, ButterTupleEnum(["low"]), {
+      policy: "storage",
+    });
+    expect(removed.breakingChanges).toEqual([
+      { type: "removed", key: "high", breaking: true },
+    ]);
+  });
+
+  it("should report metadata changes", () => {
+    const Changed = ButterKeyedEnum(
+      {
+        apple: { sweetness: "7", name: "Apple", origin: "Asia" },
+        banana: { sweetness: 9 },
+      },
+      { tupleFactory: (fruits) => [fruits.apple, fruits.banana] }
+    );
+
+    const wire = compareEnums(snapshotEnum(Fruits), Changed);
+    expect(wire.changes).toEqual([
+      {
+        type: "metadataTypeChanged",
+        key: "apple",
+        property: "sweetness",
+        previous: 7,
+        next: "7",
+        breaking: true,
+      },
+      {
+        type: "metadataAdded",
+        key: "apple",
+        property: "origin",
+        previous: undefined,
+        next: "Asia",
+        breaking: false,
+      },
+      {
+        type: "metadataRemoved",
+        key: "banana",
+        property: "name",
+        previous: "Banana",
+        next: undefined,
+        breaking: true,
+      },
+      {
+        type: "metadataValueChanged",
+        key: "banana",
+        property: "sweetness",
+        previous: 8,
+        next: 9,
+        breaking: false,
+      },
+    ]);
+    expect(compareEnums(Fruits, Changed, { policy: "storage" }).isBreaking).toBe(
+      false
+    );
+  });
+
+  it("should report metadata named like Object members", () => {
+    const Before = ButterKeyedEnum({ apple: { constructor: "Fruit" }, toString: {} });
+    const After = ButterKeyedEnum({ apple: { toString: "apple" }, toString: {} });
+    expect(compareEnums(Before, After).changes).toEqual([
+      {
+        type: "metadataRemoved",
+        key: "apple",
+        property: "constructor",
+        previous: "Fruit",
+        next: undefined,
+        breaking: true,
+      },
+      {
+        type: "metadataAdded",
+        key: "apple",
+        property: "toString",
+        previous: undefined,
+        next: "apple",
+        breaking: false,
+      },
+    ]);
+  });
+
+  it("should reject unreadable snapshots", () => {
+    expect(() => compareEnums("not json", Levels)).toThrow(
+      expect.objectContaining({ code: "INVALID_SNAPSHOT" })
+    );
+    expect(() => compareEnums('{"version":2}', Levels)).toThrow(
+      "Expected the JSON of a version 1 enum snapshot, written by snapshotEnum"
+    );
+  });
+
+  it("should write bigint metadata and reject cyclic metadata", () => {
+    const Limits = ButterKeyedEnum({ small: { max: 1n }, large: { max: 2n ** 64n } });
+    expect(JSON.parse(snapshotEnum(Limits)).metadata).toEqual({
+      small: { max: { $bigint: "1" } },
+      large: { max: { $bigint: "18446744073709551616" } },
+    });
+    expect(
+      compareEnums(Limits, ButterKeyedEnum({ small: { max: 1n }, large: { max: 3n } }))
+        .changes
+    ).toEqual([
+      expect.objectContaining({ type: "metadataValueChanged", key: "large" }),
+    ]);
+
+    const parent: { children: unknown[] } = { children: [] };
+    parent.children.push(parent);
+    const Trees = ButterKeyedEnum({ root: { parent } }, { freeze: "none" });
+    expect(() => snapshotEnum(Trees)).toThrow(
+      expect.objectContaining({ code: "INVALID_SNAPSHOT" })
+    );
+    expect(() => compareEnums(Trees, Trees)).toThrow(
+      /^The parent metadata of "root" can't be written to JSON/
+    );
+  });
+});
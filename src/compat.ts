@@ -0,0 +1,304 @@
+import { isDeepEqual } from "./shared/deep-equal";
+import { ButterEnumsDefinitionError, describeInput } from "./shared/errors";
+import { AnyButterEnum, orderedKeysOf } from "./shared/introspect";
+import { findMovedKeys } from "./shared/moved-keys";
+
+/**
+ * The stable, JSON serializable form of an enum, written by {@link snapshotEnum}
+ */
+export type EnumSnapshot = {
+  version: 1;
+  kind: "tuple" | "keyed";
+  /**
+   * Whether the order of the keys is defined by a tuple, rather than by insertion order
+   */
+  ordered: boolean;
+  /**
+   * The keys, in their canonical order
+   */
+  keys: string[];
+  /**
+   * The property the key is hoisted into, for keyed enums
+   */
+  keyName?: string;
+  /**
+   * The metadata of each key, for keyed enums. Bigints are written as `{ $bigint: "1" }`.
+   */
+  metadata?: { [key: string]: { [property: string]: unknown } };
+};
+
+/**
+ * Anything that can be compared: an enum, a snapshot, or the JSON of a snapshot
+ */
+export type EnumSnapshotSource = AnyButterEnum | EnumSnapshot | string;
+
+/**
+ * What the enum is used for, which decides what counts as a breaking change
+ *
+ * * `wire` - Keys and metadata are sent to other systems. Removing keys, or removing or retyping metadata, is breaking.
+ * * `ordinal` - The index of each key is persisted or sent. Removing, reordering or inserting keys before the end is breaking.
+ * * `storage` - Keys are persisted, e.g. in a database column. Removing keys is breaking.
+ */
+export type EnumCompatibilityPolicy = "wire" | "ordinal" | "storage";
+
+/**
+ * A single difference between two versions of an enum
+ */
+export type EnumChange = {
+  /**
+   * Whether the change is breaking under the chosen policy
+   */
+  breaking: boolean;
+  key: string;
+} & (
+  | {
+      type: "added" | "removed" | "reordered";
+    }
+  | {
+      type:
+        | "metadataAdded"
+        | "metadataRemoved"
+        | "metadataTypeChanged"
+        | "metadataValueChanged";
+      property: string;
+      previous: unknown;
+      next: unknown;
+    }
+);
+
+/**
+ * The result of {@link compareEnums}
+ */
+export type EnumComparison = {
+  policy: EnumCompatibilityPolicy;
+  /**
+   * Every difference between the two versions
+   */
+  changes: EnumChange[];
+  /**
+   * The changes that are breaking under the chosen policy
+   */
+  breakingChanges: EnumChange[];
+  /**
+   * True if any change is breaking under the chosen policy
+   */
+  isBreaking: boolean;
+};
+
+/**
+ * Writes the stable JSON form of an enum, for committing next to the code and comparing in tests.
+ *
+ * Object properties are sorted, so the output only changes when the enum does.
+ *
+ * @example
+ * ```typescript
+ * // Fails when Fruits changes, update the snapshot once the change is reviewed
+ * expect(snapshotEnum(Fruits)).toMatchFileSnapshot('./__snapshots__/fruits.json')
+ *
+ * // Fails when Fruits changes in a breaking way
+ * expect(compareEnums(readFileSync('./__snapshots__/fruits.json', 'utf8'), Fruits).isBreaking).toBe(false)
+ * ```
+ *
+ * @param butterEnum The enum to snapshot
+ * @returns The JSON of the snapshot
+ */
+export function snapshotEnum(butterEnum: AnyButterEnum): string {
+  return JSON.stringify(sortProperties(toSnapshot(butterEnum)), null, 2) + "\n";
+}
+
+/**
+ * Compares two versions of an enum, classifying each change as compatible or breaking for a policy.
+ *
+ * @example
+ * ```typescript
+ * const Before = ButterTupleEnum(['low', 'high'])
+ * const After = ButterTupleEnum(['low', 'medium', 'high'])
+ *
+ * compareEnums(Before, After, { policy: 'storage' }).isBreaking // false
+ * compareEnums(Before, After, { policy: 'ordinal' }).isBreaking // true, 'high' moved from 1 to 2
+ * ```
+ *
+ * @param previous The previous version, as an enum, a snapshot or its JSON
+ * @param next The next version, as an enum, a snapshot or its JSON
+ * @param options Configuration options
+ * @param options.policy What the enum is used for. Defaults to `"wire"`
+ * @returns The changes and whether they are breaking
+ * @throws {ButterEnumsDefinitionError} If a snapshot can't be read
+ */
+export function compareEnums(
+  previous: EnumSnapshotSource,
+  next: EnumSnapshotSource,
+  options?: { policy?: EnumCompatibilityPolicy }
+): EnumComparison {
+  const policy = options?.policy ?? "wire";
+  const before = readSnapshot(previous);
+  const after = readSnapshot(next);
+  const beforeKeys = new Set(before.keys);
+  const afterKeys = new Set(after.keys);
+  const changes: EnumChange[] = [];
+
+  for (const key of after.keys) {
+    if (!beforeKeys.has(key)) {
+      changes.push({
+        type: "added",
+        key,
+        // Anything but appending shifts the index of existing keys
+        breaking:
+          policy === "ordinal" &&
+          after.keys.slice(after.keys.indexOf(key)).some((other) => beforeKeys.has(other)),
+      });
+    }
+  }
+  for (const key of before.keys) {
+    if (!afterKeys.has(key)) {
+      changes.push({ type: "removed", key, breaking: true });
+    }
+  }
+  for (const key of findMovedKeys(before.keys, after.keys)) {
+    changes.push({ type: "reordered", key, breaking: policy === "ordinal" });
+  }
+
+  for (const key of after.keys) {
+    const beforeMetadata = ownProperty(before.metadata, key);
+    const afterMetadata = ownProperty(after.metadata, key);
+    if (!beforeMetadata || !afterMetadata) {
+      continue;
+    }
+    const properties = new Set([
+      ...Object.keys(beforeMetadata),
+      ...Object.keys(afterMetadata),
+    ]);
+    for (const property of properties) {
+      const previousValue = ownProperty(beforeMetadata, property);
+      const nextValue = ownProperty(afterMetadata, property);
+      const change = {
+        key,
+        property,
+        previous: previousValue,
+        next: nextValue,
+      };
+      if (!Object.prototype.hasOwnProperty.call(afterMetadata, property)) {
+        changes.push({ type: "metadataRemoved", ...change, breaking: policy === "wire" });
+      } else if (!Object.prototype.hasOwnProperty.call(beforeMetadata, property)) {
+        changes.push({ type: "metadataAdded", ...change, breaking: false });
+      } else if (typeOf(previousValue) !== typeOf(nextValue)) {
+        changes.push({ type: "metadataTypeChanged", ...change, breaking: policy === "wire" });
+      } else if (!isDeepEqual(previousValue, nextValue)) {
+        changes.push({ type: "metadataValueChanged", ...change, breaking: false });
+      }
+    }
+  }
+
+  const breakingChanges = changes.filter((change) => change.breaking);
+  return {
+    policy,
+    changes,
+    breakingChanges,
+    isBreaking: breakingChanges.length > 0,
+  };
+}
+
+function toSnapshot(butterEnum: AnyButterEnum): EnumSnapshot {
+  const keys = [...orderedKeysOf(butterEnum)];
+  if (butterEnum.kind === "tuple") {
+    return { version: 1, kind: "tuple", ordered: true, keys };
+  }
+  const { keyName } = butterEnum;
+  return {
+    version: 1,
+    kind: "keyed",
+    ordered: butterEnum.hasTuple,
+    keys,
+    keyName,
+    metadata: Object.fromEntries(
+      keys.map((key) => {
+        const { [keyName]: _, ...metadata } = butterEnum.enum[key]!;
+        return [
+          key,
+          Object.fromEntries(
+            Object.entries(metadata).flatMap(([property, value]) => {
+              const json = toJson(key, property, value);
+              return json === undefined ? [] : [[property, JSON.parse(json)]];
+            })
+          ),
+        ];
+      })
+    ),
+  };
+}
+
+/**
+ * Serializes a metadata property, writing bigints as `{ $bigint: "1" }`.
+ * Like JSON.stringify, it returns undefined for values JSON can't represent, such as functions.
+ */
+function toJson(key: string, property: string, value: unknown) {
+  try {
+    return JSON.stringify(value, (_, nested) =>
+      typeof nested === "bigint" ? { $bigint: nested.toString() } : nested
+    ) as string | undefined;
+  } catch (error) {
+    throw new ButterEnumsDefinitionError(
+      "INVALID_SNAPSHOT",
+      "EnumSnapshot",
+      `The ${property} metadata of ${describeInput(key)} can't be written to JSON: ${(error as Error).message}`
+    );
+  }
+}
+
+function readSnapshot(source: EnumSnapshotSource): EnumSnapshot {
+  if (typeof source !== "string") {
+    return "version" in source ? source : toSnapshot(source);
+  }
+  let snapshot: unknown;
+  try {
+    snapshot = JSON.parse(source);
+  } catch {
+    snapshot = undefined;
+  }
+  if (
+    typeof snapshot !== "object" ||
+    snapshot === null ||
+    (snapshot as EnumSnapshot).version !== 1 ||
+    !Array.isArray((snapshot as EnumSnapshot).keys)
+  ) {
+    throw new ButterEnumsDefinitionError(
+      "INVALID_SNAPSHOT",
+      "EnumSnapshot",
+      "Expected the JSON of a version 1 enum snapshot, written by snapshotEnum"
+    );
+  }
+  return snapshot as EnumSnapshot;
+}
+
+/**
+ * Gets an own property, so keys and properties like "constructor" don't resolve to inherited members
+ */
+function ownProperty<TValue>(
+  object: { [property: string]: TValue } | undefined,
+  property: string
+): TValue | undefined {
+  return object && Object.prototype.hasOwnProperty.call(object, property)
+    ? object[property]
+    : undefined;
+}
+
+function typeOf(value: unknown) {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function sortProperties(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortProperties);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortProperties((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
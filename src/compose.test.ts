@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ButterKeyedEnum } from "./butterKeyedEnum";
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { mergeEnums } from "./compose";
+import { ButterEnumsDefinitionError } from "./shared/errors";
+
+describe("mergeEnums", () => {
+  const Primary = ButterTupleEnum(["red", "blue"], { name: "Primary" });
+  const Secondary = ButterTupleEnum(["green", "purple"]);
+
+  it("should merge tuple enums", () => {
+    const Colors = mergeEnums(Primary, Secondary);
+    const tuple: readonly ["red", "blue", "green", "purple"] = Colors.tuple;
+    expect(tuple).toEqual(["red", "blue", "green", "purple"]);
+    expect(() => Colors.parse("pink")).toThrow("Expected a key of Primary");
+  });
+
+  it("should reject colliding tuple enums unless overriding", () => {
+    const Warm = ButterTupleEnum(["red", "orange"]);
+    // @ts-expect-error - red is in both enums
+    expect(() => mergeEnums(Primary, Warm)).toThrow(
+      'Primary already has "red". Pass { override: true } to replace it'
+    );
+    const merged = mergeEnums(Primary, Warm, { override: true, name: "Colors" });
+    const tuple: readonly ["red", "blue", "orange"] = merged.tuple;
+    expect(tuple).toEqual(["red", "blue", "orange"]);
+  });
+
+  const CoreStatuses = ButterKeyedEnum(
+    {
+      active: { label: "Active" },
+      archived: { label: "Archived" },
+    },
+    {
+      keyName: "id",
+      tupleFactory: (statuses) => [statuses.archived, statuses.active],
+    }
+  );
+  const BillingStatuses = ButterKeyedEnum({
+    overdue: { label: "Overdue" },
+  });
+
+  it("should merge keyed enums, keeping the keyName and order of the first", () => {
+    const Statuses = mergeEnums(CoreStatuses, BillingStatuses);
+    expect(Statuses.keyName).toBe("id");
+    expect(Statuses.enum.overdue).toEqual({ label: "Overdue", id: "overdue" });
+    expect(Statuses.enum.active.label).toBe("Active");
+    expect(Statuses.orderedKeys).toEqual(["archived", "active", "overdue"]);
+  });
+
+  it("should reject colliding keyed enums unless overriding", () => {
+    const Renamed = ButterKeyedEnum({ active: { label: "Enabled" } });
+    // @ts-expect-error - active is in both enums
+    expect(() => mergeEnums(CoreStatuses, Renamed)).toThrow(
+      ButterEnumsDefinitionError
+    );
+    const merged = mergeEnums(CoreStatuses, Renamed, { override: true });
+    expect(merged.enum.active).toEqual({ label: "Enabled", id: "active" });
+    expect(merged.orderedKeys).toEqual(["archived", "active"]);
+  });
+});
@@ -0,0 +1,135 @@
+import { ButterKeyedEnumInstance } from "./butterKeyedEnum";
+import { ButterTupleEnumInstance } from "./butterTupleEnum";
+import {
+  ButterEnumsExtendOptions,
+  FilterTuple,
+  MergeDefinitions,
+  NoCollisions,
+  StripKeyName,
+  stripKeyName,
+} from "./shared/composition";
+import {
+  AnyButterEnum,
+  AnyButterKeyedEnum,
+  AnyButterTupleEnum,
+  orderedKeysOf,
+} from "./shared/introspect";
+
+/**
+ * Utility type for the definition of a keyed enum, recovered from its values
+ */
+type DefinitionOf<TEnum extends AnyButterKeyedEnum> = StripKeyName<
+  TEnum["enum"],
+  TEnum["keyName"]
+>;
+
+/**
+ * Utility type for the keyed enum that mergeEnums creates
+ */
+type MergedKeyedEnum<
+  TFirst extends AnyButterKeyedEnum,
+  TSecond extends AnyButterKeyedEnum,
+> = ButterKeyedEnumInstance<
+  TFirst["keyName"],
+  MergeDefinitions<DefinitionOf<TFirst>, DefinitionOf<TSecond>>,
+  TFirst["hasTuple"] extends true
+    ? [MergedValue<TFirst, TSecond>, ...MergedValue<TFirst, TSecond>[]]
+    : []
+>;
+
+/**
+ * Utility type for the values of the keyed enum that mergeEnums creates
+ */
+type MergedValue<
+  TFirst extends AnyButterKeyedEnum,
+  TSecond extends AnyButterKeyedEnum,
+> = ButterKeyedEnumInstance<
+  TFirst["keyName"],
+  MergeDefinitions<DefinitionOf<TFirst>, DefinitionOf<TSecond>>,
+  []
+>["values"][number];
+
+/**
+ * Merges two enums of the same kind into a new enum.
+ *
+ * The new enum has the keyName, the name and the tuple order of the first enum,
+ * with the entries of the second enum appended in its canonical order.
+ * Keys in both enums fail to compile and throw, unless `override` is set,
+ * in which case the entries of the second enum replace those of the first in place.
+ *
+ * @example
+ * ```typescript
+ * const Statuses = mergeEnums(CoreStatuses, BillingStatuses)
+ * const Colors = mergeEnums(PrimaryColors, SecondaryColors, { name: 'Colors' })
+ * ```
+ *
+ * @param first The enum whose keyName, name and order are kept
+ * @param second The enum whose entries are appended
+ * @param options Configuration options
+ * @param options.override Whether the entries of the second enum may replace those of the first
+ * @param options.name The name of the new enum. Defaults to the name of the first enum
+ * @returns The merged enum
+ * @throws {ButterEnumsDefinitionError} If a key is in both enums and override is not set
+ */
+export function mergeEnums<
+  const TFirst extends readonly string[],
+  const TSecond extends readonly string[],
+>(
+  first: AnyButterTupleEnum & { tuple: TFirst },
+  second: AnyButterTupleEnum & { tuple: TSecond } & NoCollisions<
+      TFirst[number],
+      TSecond[number]
+    >,
+  options?: ButterEnumsExtendOptions & { override?: false }
+): ButterTupleEnumInstance<[...TFirst, ...TSecond]>;
+export function mergeEnums<
+  const TFirst extends readonly string[],
+  const TSecond extends readonly string[],
+>(
+  first: AnyButterTupleEnum & { tuple: TFirst },
+  second: AnyButterTupleEnum & { tuple: TSecond },
+  options: ButterEnumsExtendOptions & { override: true }
+): ButterTupleEnumInstance<
+  [...TFirst, ...FilterTuple<TSecond, Exclude<TSecond[number], TFirst[number]>>]
+>;
+export function mergeEnums<
+  TFirst extends AnyButterKeyedEnum,
+  TSecond extends AnyButterKeyedEnum,
+>(
+  first: TFirst,
+  second: TSecond &
+    NoCollisions<keyof TFirst["enum"], keyof TSecond["enum"]>,
+  options?: ButterEnumsExtendOptions & { override?: false }
+): MergedKeyedEnum<TFirst, TSecond>;
+export function mergeEnums<
+  TFirst extends AnyButterKeyedEnum,
+  TSecond extends AnyButterKeyedEnum,
+>(
+  first: TFirst,
+  second: TSecond,
+  options: ButterEnumsExtendOptions & { override: true }
+): MergedKeyedEnum<TFirst, TSecond>;
+export function mergeEnums(
+  first: AnyButterEnum,
+  second: AnyButterEnum,
+  options?: ButterEnumsExtendOptions
+): unknown {
+  if (first.kind === "tuple" && second.kind === "tuple") {
+    return (first as ButterTupleEnumInstance<readonly string[]>).extend(
+      second.tuple,
+      options as ButterEnumsExtendOptions & { override: true }
+    );
+  }
+  if (first.kind === "keyed" && second.kind === "keyed") {
+    return (first as ButterKeyedEnumInstance<"key", {}, []>).extend(
+      Object.fromEntries(
+        orderedKeysOf(second).map((key) => [
+          key,
+          stripKeyName(second.enum[key], second.keyName),
+        ])
+      ) as {},
+      options as ButterEnumsExtendOptions & { override: true }
+    );
+  }
+  throw new TypeError("Only enums of the same kind can be merged");
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { ButterKeyedEnum } from "./butterKeyedEnum";
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { toGraphQLEnum, toJsonSchema, toOpenApiComponent } from "./exporters";
+
+describe("exporters", () => {
+  const Colors = ButterTupleEnum(["red", "green", "blue"]);
+
+  const Fruits = ButterKeyedEnum(
+    {
+      apple: {
+        name: "Apple",
+        description: "Keeps the doctor away",
+        sweetness: 7,
+      },
+      banana: {
+        name: "Banana",
+        description: "Comes in bunches",
+        sweetness: 8,
+      },
+      lemon: {
+        name: "Lemon",
+        description: 'Makes """lemonade"""',
+        sweetness: 2,
+      },
+    },
+    {
+      tupleFactory: (enumObject) => [
+        enumObject.lemon,
+        enumObject.banana,
+        enumObject.apple,
+      ],
+    }
+  );
+
+  const UnorderedFruits = ButterKeyedEnum({
+    banana: { name: "Banana" },
+    apple: { name: "Apple" },
+  });
+
+  it("should convert a tuple enum to a JSON Schema", () => {
+    expect(toJsonSchema(Colors)).toEqual({
+      type: "string",
+      enum: ["red", "green", "blue"],
+    });
+    expect(toJsonSchema(Colors, { title: "Color" })).toEqual({
+      type: "string",
+      title: "Color",
+      enum: ["red", "green", "blue"],
+    });
+  });
+
+  it("should convert a keyed enum to a JSON Schema in tuple order", () => {
+    expect(
+      toJsonSchema(Fruits, {
+        description: "A fruit",
+        titleProperty: "name",
+        descriptionProperty: "description",
+      })
+    ).toEqual({
+      type: "string",
+      description: "A fruit",
+      oneOf: [
+        { const: "lemon", title: "Lemon", description: 'Makes """lemonade"""' },
+        { const: "banana", title: "Banana", description: "Comes in bunches" },
+        { const: "apple", title: "Apple", description: "Keeps the doctor away" },
+      ],
+      "x-enum-varnames": ["lemon", "banana", "apple"],
+    });
+
+    // @ts-expect-error - color is not a property of the fruits
+    toJsonSchema(Fruits, { titleProperty: "color" });
+  });
+
+  it("should use insertion order without a tupleFactory", () => {
+    expect(toJsonSchema(UnorderedFruits)).toEqual({
+      type: "string",
+      oneOf: [{ const: "banana" }, { const: "apple" }],
+      "x-enum-varnames": ["banana", "apple"],
+    });
+  });
+
+  it("should convert an enum to an OpenAPI component", () => {
+    expect(toOpenApiComponent("Color", Colors)).toEqual({
+      schemas: {
+        Color: { type: "string", enum: ["red", "green", "blue"] },
+      },
+    });
+    expect(
+      toOpenApiComponent("Fruit", Fruits, { titleProperty: "name" }).schemas
+        .Fruit.oneOf[0]
+    ).toEqual({ const: "lemon", title: "Lemon" });
+    expect(
+      toOpenApiComponent("Fruit", Fruits, {
+        version: "3.0",
+        descriptionProperty: "name",
+      })
+    ).toEqual({
+      schemas: {
+        Fruit: {
+          type: "string",
+          enum: ["lemon", "banana", "apple"],
+          "x-enum-varnames": ["lemon", "banana", "apple"],
+          "x-enum-descriptions": ["Lemon", "Banana", "Apple"],
+        },
+      },
+    });
+  });
+
+  it("should convert an enum to a GraphQL enum", () => {
+    expect(toGraphQLEnum("Color", Colors)).toBe(
+      ["enum Color {", "  red", "  green", "  blue", "}", ""].join("\n")
+    );
+    expect(
+      toGraphQLEnum("Fruit", Fruits, {
+        description: "A fruit",
+        descriptionProperty: "description",
+      })
+    ).toBe(
+      [
+        '"""A fruit"""',
+        "enum Fruit {",
+        '  """Makes \\"""lemonade\\""""""',
+        "  lemon",
+        '  """Comes in bunches"""',
+        "  banana",
+        '  """Keeps the doctor away"""',
+        "  apple",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should reject names GraphQL can't represent", () => {
+    expect(() =>
+      toGraphQLEnum("Level", ButterTupleEnum(["low", "very-high"]))
+    ).toThrow('"very-high" is not a valid GraphQL enum value name');
+    expect(() => toGraphQLEnum("Bool", ButterTupleEnum(["true"]))).toThrow(
+      expect.objectContaining({ code: "INVALID_IDENTIFIER" })
+    );
+    expect(() => toGraphQLEnum("My Color", Colors)).toThrow(
+      '"My Color" is not a valid GraphQL enum type name'
+    );
+  });
+});
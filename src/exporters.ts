@@ -0,0 +1,299 @@
+import { ButterEnumsDefinitionError } from "./shared/errors";
+import {
+  AnyButterEnum,
+  AnyButterKeyedEnum,
+  AnyButterTupleEnum,
+  orderedKeysOf,
+  ValueOfButterKeyedEnum,
+} from "./shared/introspect";
+
+/**
+ * Options shared by every exporter
+ */
+export type EnumSchemaOptions = {
+  /**
+   * A title for the whole enum
+   */
+  title?: string;
+  /**
+   * A description for the whole enum
+   */
+  description?: string;
+};
+
+/**
+ * Options for exporting a keyed enum, choosing which metadata properties describe each value
+ *
+ * @template TEnum The keyed enum being exported
+ */
+export type KeyedEnumSchemaOptions<TEnum extends AnyButterKeyedEnum> =
+  EnumSchemaOptions & {
+    /**
+     * The metadata property to use as the title of each value
+     */
+    titleProperty?: keyof ValueOfButterKeyedEnum<TEnum> & string;
+    /**
+     * The metadata property to use as the description of each value
+     */
+    descriptionProperty?: keyof ValueOfButterKeyedEnum<TEnum> & string;
+  };
+
+/**
+ * A JSON Schema for a tuple enum
+ */
+export type JsonSchemaEnum = {
+  type: "string";
+  title?: string;
+  description?: string;
+  enum: string[];
+};
+
+/**
+ * A JSON Schema for a keyed enum, describing each value with a `const` schema
+ */
+export type JsonSchemaOneOfEnum = {
+  type: "string";
+  title?: string;
+  description?: string;
+  oneOf: {
+    const: string;
+    title?: string;
+    description?: string;
+  }[];
+  "x-enum-varnames": string[];
+};
+
+/**
+ * An OpenAPI 3.0 schema for an enum, which can't use `const`,
+ * so the descriptions live in vendor extensions instead
+ */
+export type OpenApi30Enum = JsonSchemaEnum & {
+  "x-enum-varnames"?: string[];
+  "x-enum-descriptions"?: string[];
+};
+
+/**
+ * Converts an enum into a JSON Schema.
+ *
+ * Tuple enums become a plain string `enum`, keyed enums become a `oneOf` of `const` schemas,
+ * titled and described by the chosen metadata properties.
+ * Values are ordered by the tuple when there is one, and by insertion order otherwise.
+ *
+ * @example
+ * ```typescript
+ * toJsonSchema(Colors) // { type: 'string', enum: ['red', 'green', 'blue'] }
+ *
+ * toJsonSchema(Fruits, { titleProperty: 'name' })
+ * // {
+ * //   type: 'string',
+ * //   oneOf: [{ const: 'apple', title: 'Apple' }, ...],
+ * //   'x-enum-varnames': ['apple', ...],
+ * // }
+ * ```
+ *
+ * @param butterEnum The enum to convert
+ * @param options Configuration options
+ * @returns The JSON Schema
+ */
+export function toJsonSchema(
+  butterEnum: AnyButterTupleEnum,
+  options?: EnumSchemaOptions
+): JsonSchemaEnum;
+export function toJsonSchema<TEnum extends AnyButterKeyedEnum>(
+  butterEnum: TEnum,
+  options?: KeyedEnumSchemaOptions<TEnum>
+): JsonSchemaOneOfEnum;
+export function toJsonSchema(
+  butterEnum: AnyButterEnum,
+  options: KeyedEnumSchemaOptions<AnyButterKeyedEnum> = {}
+): JsonSchemaEnum | JsonSchemaOneOfEnum {
+  const keys = [...orderedKeysOf(butterEnum)];
+  if (butterEnum.kind === "tuple") {
+    return { type: "string", ...describe(options), enum: keys };
+  }
+  return {
+    type: "string",
+    ...describe(options),
+    oneOf: keys.map((key) => ({
+      const: key,
+      ...describe({
+        title: metadataOf(butterEnum, key, options.titleProperty),
+        description: metadataOf(butterEnum, key, options.descriptionProperty),
+      }),
+    })),
+    "x-enum-varnames": keys,
+  };
+}
+
+/**
+ * Converts an enum into an OpenAPI components object, ready to merge into a document's `components`.
+ *
+ * OpenAPI 3.1 uses the same schema as {@link toJsonSchema}.
+ * OpenAPI 3.0 has no `const`, so keyed enums use a plain `enum`
+ * with `x-enum-varnames` and `x-enum-descriptions` extensions instead.
+ *
+ * @example
+ * ```typescript
+ * toOpenApiComponent('Color', Colors)
+ * // { schemas: { Color: { type: 'string', enum: ['red', 'green', 'blue'] } } }
+ * ```
+ *
+ * @param name The name of the schema component
+ * @param butterEnum The enum to convert
+ * @param options Configuration options
+ * @param options.version The OpenAPI version to target. Defaults to `"3.1"`
+ * @returns The components object
+ */
+export function toOpenApiComponent<TName extends string>(
+  name: TName,
+  butterEnum: AnyButterTupleEnum,
+  options?: EnumSchemaOptions & { version?: "3.0" | "3.1" }
+): { schemas: { [K in TName]: JsonSchemaEnum } };
+export function toOpenApiComponent<
+  TName extends string,
+  TEnum extends AnyButterKeyedEnum,
+  TVersion extends "3.0" | "3.1" = "3.1",
+>(
+  name: TName,
+  butterEnum: TEnum,
+  options?: KeyedEnumSchemaOptions<TEnum> & { version?: TVersion }
+): {
+  schemas: {
+    [K in TName]: TVersion extends "3.0" ? OpenApi30Enum : JsonSchemaOneOfEnum;
+  };
+};
+export function toOpenApiComponent(
+  name: string,
+  butterEnum: AnyButterEnum,
+  options: KeyedEnumSchemaOptions<AnyButterKeyedEnum> & {
+    version?: "3.0" | "3.1";
+  } = {}
+) {
+  const { version = "3.1", ...schemaOptions } = options;
+  if (butterEnum.kind === "tuple") {
+    return { schemas: { [name]: toJsonSchema(butterEnum, schemaOptions) } };
+  }
+  if (version === "3.1") {
+    return { schemas: { [name]: toJsonSchema(butterEnum, schemaOptions) } };
+  }
+  const keys = [...orderedKeysOf(butterEnum)];
+  const schema: OpenApi30Enum = {
+    type: "string",
+    ...describe(schemaOptions),
+    enum: keys,
+    "x-enum-varnames": keys,
+  };
+  if (schemaOptions.descriptionProperty) {
+    schema["x-enum-descriptions"] = keys.map(
+      (key) =>
+        metadataOf(butterEnum, key, schemaOptions.descriptionProperty) ?? ""
+    );
+  }
+  return { schemas: { [name]: schema } };
+}
+
+/**
+ * Converts an enum into a GraphQL SDL `enum` block.
+ *
+ * @example
+ * ```typescript
+ * toGraphQLEnum('Fruit', Fruits, { descriptionProperty: 'name' })
+ * // enum Fruit {
+ * //   """Apple"""
+ * //   apple
+ * //   ...
+ * // }
+ * ```
+ *
+ * @param name The name of the GraphQL type
+ * @param butterEnum The enum to convert
+ * @param options Configuration options
+ * @returns The SDL
+ * @throws {ButterEnumsDefinitionError} If the name or a key is not a valid GraphQL enum value name
+ */
+export function toGraphQLEnum(
+  name: string,
+  butterEnum: AnyButterTupleEnum,
+  options?: Pick<EnumSchemaOptions, "description">
+): string;
+export function toGraphQLEnum<TEnum extends AnyButterKeyedEnum>(
+  name: string,
+  butterEnum: TEnum,
+  options?: Pick<
+    KeyedEnumSchemaOptions<TEnum>,
+    "description" | "descriptionProperty"
+  >
+): string;
+export function toGraphQLEnum(
+  name: string,
+  butterEnum: AnyButterEnum,
+  options: KeyedEnumSchemaOptions<AnyButterKeyedEnum> = {}
+): string {
+  assertGraphQLName(name, name, "type");
+  const lines: string[] = [];
+  if (options.description !== undefined) {
+    lines.push(graphQLDescription(options.description, ""));
+  }
+  lines.push(`enum ${name} {`);
+  for (const key of orderedKeysOf(butterEnum)) {
+    assertGraphQLName(name, key, "value");
+    const description =
+      butterEnum.kind === "keyed"
+        ? metadataOf(butterEnum, key, options.descriptionProperty)
+        : undefined;
+    if (description !== undefined) {
+      lines.push(graphQLDescription(description, "  "));
+    }
+    lines.push(`  ${key}`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Drops undefined titles and descriptions, so they don't show up as keys in the schema
+ */
+function describe(options: EnumSchemaOptions) {
+  return {
+    ...(options.title !== undefined && { title: options.title }),
+    ...(options.description !== undefined && {
+      description: options.description,
+    }),
+  };
+}
+
+/**
+ * Reads a metadata property of a keyed enum value as a string
+ */
+function metadataOf(
+  butterEnum: AnyButterKeyedEnum,
+  key: string,
+  property: string | undefined
+): string | undefined {
+  if (property === undefined) {
+    return undefined;
+  }
+  const value = butterEnum.enum[key]?.[property];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function assertGraphQLName(
+  enumName: string,
+  name: string,
+  kind: "type" | "value"
+) {
+  if (
+    !/^[_A-Za-z][_0-9A-Za-z]*$/.test(name) ||
+    (kind === "value" && ["true", "false", "null"].includes(name))
+  ) {
+    throw new ButterEnumsDefinitionError(
+      "INVALID_IDENTIFIER",
+      enumName,
+      `${JSON.stringify(name)} is not a valid GraphQL enum ${kind} name`
+    );
+  }
+}
+
+function graphQLDescription(description: string, indent: string) {
+  return `${indent}"""${description.replace(/"""/g, '\\"""')}"""`;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { generateEnumModule } from "./generate";
+import { ButterEnumsDefinitionError } from "./shared/errors";
+
+describe("generateEnumModule", () => {
+  const csv = [
+    "code,label,price,description,zip",
+    'free,Free,0,"The default plan, for everyone",007',
+    "pro-plus,Pro+,9.5,,",
+  ].join("\n");
+
+  it("should generate a keyed enum with an ordered tupleFactory", () => {
+    expect(
+      generateEnumModule(csv, {
+        format: "csv",
+        name: "PlanTier",
+        key: "code",
+        description: "description",
+        sourceName: "plans.csv",
+      })
+    ).toBe(`// Generated by butter-enums from plans.csv. Do not edit this file, regenerate it instead.
+import { ButterKeyedEnum } from "butter-enums";
+
+export const PlanTier = ButterKeyedEnum(
+  {
+    /**
+     * The default plan, for everyone
+     */
+    free: {
+      label: "Free",
+      price: 0,
+      zip: "007",
+    },
+    "pro-plus": {
+      label: "Pro+",
+      price: 9.5,
+      zip: "",
+    },
+  },
+  {
+    keyName: "code",
+    name: "PlanTier",
+    tupleFactory: (enumObject) => [
+      enumObject.free,
+      enumObject["pro-plus"],
+    ],
+  }
+);
+`);
+  });
+
+  it("should read JSON and YAML lists and objects of records", () => {
+    const fromJson = generateEnumModule(
+      JSON.stringify({ us: { name: "United States" }, ca: { name: "Canada" } }),
+      { format: "json", name: "Country" }
+    );
+    const fromYaml = generateEnumModule(
+      "- key: us\n  name: United States\n- key: ca\n  name: Canada\n",
+      { format: "yaml", name: "Country" }
+    );
+    expect(fromYaml).toBe(fromJson);
+    expect(fromJson).toContain('    us: {\n      name: "United States",\n    },');
+    expect(fromJson).toContain("      enumObject.us,\n      enumObject.ca,");
+    expect(fromJson).not.toContain("keyName");
+  });
+
+  it("should reject missing and duplicated keys", () => {
+    expect(() =>
+      generateEnumModule("key,label\nfree,Free\n,Pro", { format: "csv", name: "PlanTier" })
+    ).toThrow('Record 2 of PlanTier has no "key"');
+    expect(() =>
+      generateEnumModule("key\nfree\npro\nfree", { format: "csv", name: "PlanTier" })
+    ).toThrow(ButterEnumsDefinitionError);
+    expect(() =>
+      generateEnumModule("[1]", { format: "json", name: "PlanTier" })
+    ).toThrow("Record 1 of PlanTier must be an object, but is 1");
+    expect(() =>
+      generateEnumModule("[]", { format: "json", name: "plan-tier" })
+    ).toThrow("not an identifier");
+  });
+
+  it("should ignore a byte order mark", () => {
+    const options = { format: "csv", name: "PlanTier", key: "code" } as const;
+    expect(generateEnumModule(`\uFEFF${csv}`, options)).toBe(
+      generateEnumModule(csv, options)
+    );
+    expect(
+      generateEnumModule('\uFEFF{ "us": {} }', { format: "json", name: "Country" })
+    ).toContain("enumObject.us,");
+  });
+
+  it("should define __proto__ keys instead of setting the prototype", () => {
+    const fromJson = generateEnumModule(
+      '{ "__proto__": { "label": "Proto", "__proto__": 1 }, "ok": {} }',
+      { format: "json", name: "Weird" }
+    );
+    expect(fromJson).toContain(
+      '    ["__proto__"]: {\n      label: "Proto",\n      ["__proto__"]: 1,\n    },'
+    );
+    expect(fromJson).toContain('      enumObject["__proto__"],\n      enumObject.ok,');
+    expect(
+      generateEnumModule("__proto__:\n  label: Proto\nok: {}\n", {
+        format: "yaml",
+        name: "Weird",
+      })
+    ).toContain('    ["__proto__"]: {\n      label: "Proto",\n    },');
+    expect(
+      generateEnumModule("key,__proto__\n__proto__,1", { format: "csv", name: "Weird" })
+    ).toContain('    ["__proto__"]: {\n      ["__proto__"]: 1,\n    },');
+  });
+});
@@ -0,0 +1,249 @@
+import { parseCsvRecords } from "./shared/csv";
+import { ButterEnumsDefinitionError, describeInput } from "./shared/errors";
+import { parseYaml } from "./shared/yaml";
+
+/**
+ * The formats generateEnumModule can read
+ */
+export type GenerateEnumFormat = "json" | "yaml" | "csv";
+
+/**
+ * The options of generateEnumModule
+ */
+export type GenerateEnumOptions = {
+  /**
+   * The format of the source
+   */
+  format: GenerateEnumFormat;
+  /**
+   * The name of the exported enum, which is also passed as its name option
+   */
+  name: string;
+  /**
+   * The column with the keys, which becomes the keyName of the enum. Defaults to `"key"`
+   */
+  key?: string;
+  /**
+   * The column with the description of each key, which becomes its JSDoc instead of a property
+   */
+  description?: string;
+  /**
+   * The file the source was read from, mentioned in the header of the module
+   */
+  sourceName?: string;
+  /**
+   * The module to import ButterKeyedEnum from. Defaults to `"butter-enums"`
+   */
+  importFrom?: string;
+};
+
+/**
+ * Generates a TypeScript module that exports a ButterKeyedEnum from reference data.
+ *
+ * The source is a list of records, or an object of records by key, in JSON, YAML or CSV.
+ * The records keep their order, which is also the order of the tupleFactory.
+ * Cells of CSV that look like numbers or booleans are converted, except numbers with leading zeros, e.g. `007`.
+ * The output is deterministic, so it can be compared with a committed file to find out if it's stale.
+ *
+ * @example
+ * ```typescript
+ * generateEnumModule('key,label\nfree,Free\npro,Pro', { format: 'csv', name: 'PlanTier' })
+ * // export const PlanTier = ButterKeyedEnum({ free: { label: "Free" }, ... }, { tupleFactory: ... })
+ * ```
+ *
+ * @param source The text of the JSON, YAML or CSV
+ * @param options Configuration options
+ * @returns The TypeScript module
+ * @throws {SyntaxError} If the source can't be parsed, or isn't a list or object of records
+ * @throws {ButterEnumsDefinitionError} If the name is not an identifier, a record has no key, or a key appears more than once
+ */
+export function generateEnumModule(
+  source: string,
+  options: GenerateEnumOptions
+): string {
+  if (!IDENTIFIER.test(options.name)) {
+    throw new ButterEnumsDefinitionError(
+      "INVALID_IDENTIFIER",
+      options.name,
+      `${describeInput(options.name)} can't be the name of the generated enum, because it's not an identifier`
+    );
+  }
+  const keyColumn = options.key ?? "key";
+  const entries = toEntries(parseSource(source, options.format), options);
+
+  const properties = entries.map(({ key, description, fields }) =>
+    [
+      ...(description ? formatJSDoc(description, "    ") : []),
+      `    ${formatPropertyKey(key)}: ${formatValue(fields, "    ")},`,
+    ].join("\n")
+  );
+  const tuple = entries.map(({ key }) => `      enumObject${formatAccess(key)},`);
+  const enumOptions = [
+    ...(keyColumn === "key" ? [] : [`    keyName: ${JSON.stringify(keyColumn)},`]),
+    `    name: ${JSON.stringify(options.name)},`,
+    `    tupleFactory: (enumObject) => [`,
+    ...tuple,
+    `    ],`,
+  ];
+
+  return [
+    `// Generated by butter-enums${options.sourceName ? ` from ${options.sourceName}` : ""}. Do not edit this file, regenerate it instead.`,
+    `import { ButterKeyedEnum } from ${JSON.stringify(options.importFrom ?? "butter-enums")};`,
+    ``,
+    `export const ${options.name} = ButterKeyedEnum(`,
+    `  {`,
+    ...properties,
+    `  },`,
+    `  {`,
+    ...enumOptions,
+    `  }`,
+    `);`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * A record of the source, split into its key, description and the rest of its fields
+ */
+type SourceEntry = {
+  key: string;
+  description: string | undefined;
+  fields: Record<string, unknown>;
+};
+
+function parseSource(source: string, format: GenerateEnumFormat): unknown {
+  // Spreadsheets like Excel start "CSV UTF-8" files with a byte order mark
+  const text = source.replace(/^\uFEFF/, "");
+  switch (format) {
+    case "json":
+      return JSON.parse(text);
+    case "yaml":
+      return parseYaml(text);
+    case "csv":
+      return parseCsvRecords(text).map((record) =>
+        Object.fromEntries(
+          Object.entries(record).map(([column, cell]) => [column, parseCell(cell)])
+        )
+      );
+  }
+}
+
+/**
+ * Converts the cells of CSV that look like numbers or booleans
+ */
+function parseCell(cell: string): unknown {
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(cell)) {
+    return Number(cell);
+  }
+  if (cell === "true" || cell === "false") {
+    return cell === "true";
+  }
+  return cell;
+}
+
+function toEntries(data: unknown, options: GenerateEnumOptions): SourceEntry[] {
+  const keyColumn = options.key ?? "key";
+  const records = Array.isArray(data)
+    ? data
+    : isRecord(data)
+      ? Object.entries(data).map(([key, record]) =>
+          isRecord(record) ? { [keyColumn]: key, ...record } : record
+        )
+      : undefined;
+  if (records === undefined) {
+    throw new SyntaxError(
+      `The source of ${options.name} must be a list of records, or an object of records by key`
+    );
+  }
+
+  const rowsByKey = new Map<string, number>();
+  return records.map((record: unknown, index): SourceEntry => {
+    const row = index + 1;
+    if (!isRecord(record)) {
+      throw new SyntaxError(
+        `Record ${row} of ${options.name} must be an object, but is ${describeInput(record)}`
+      );
+    }
+    const { [keyColumn]: key, ...fields } = record;
+    if ((typeof key !== "string" && typeof key !== "number") || key === "") {
+      throw new ButterEnumsDefinitionError(
+        "MISSING_KEY",
+        options.name,
+        `Record ${row} of ${options.name} has no ${describeInput(keyColumn)}`
+      );
+    }
+    const duplicateRow = rowsByKey.get(String(key));
+    if (duplicateRow !== undefined) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_KEY",
+        options.name,
+        `${options.name} has ${describeInput(String(key))} in records ${duplicateRow} and ${row}`
+      );
+    }
+    rowsByKey.set(String(key), row);
+
+    let description: string | undefined;
+    if (options.description !== undefined) {
+      const { [options.description]: text, ...rest } = fields;
+      description = text === undefined || text === null ? undefined : String(text);
+      return { key: String(key), description, fields: rest };
+    }
+    return { key: String(key), description, fields };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? "[]"
+      : `[\n${value.map((item) => `${indent}  ${formatValue(item, `${indent}  `)},`).join("\n")}\n${indent}]`;
+  }
+  if (isRecord(value)) {
+    const entries = Object.entries(value);
+    return entries.length === 0
+      ? "{}"
+      : `{\n${entries
+          .map(
+            ([key, item]) =>
+              `${indent}  ${formatPropertyKey(key)}: ${formatValue(item, `${indent}  `)},`
+          )
+          .join("\n")}\n${indent}}`;
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatJSDoc(description: string, indent: string): string[] {
+  return [
+    `${indent}/**`,
+    ...description
+      .trim()
+      .split(/\r?\n/)
+      .map((line) => `${indent} * ${line.replace(/\*\//g, "*\\/")}`.trimEnd()),
+    `${indent} */`,
+  ];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Formats a key of an object literal. A plain or quoted __proto__ key would set the prototype, so it's computed.
+ */
+function formatPropertyKey(key: string): string {
+  if (key === "__proto__") {
+    return `[${JSON.stringify(key)}]`;
+  }
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function formatAccess(key: string): string {
+  return IDENTIFIER.test(key) && key !== "__proto__"
+    ? `.${key}`
+    : `[${JSON.stringify(key)}]`;
+}
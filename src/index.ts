@@ -1,5 +1,54 @@
+export * from './butterFlagsEnum';
 export * from './butterKeyedEnum';
+export * from './butterStateEnum';
 export * from './butterTupleEnum';
+export * from './butterUnionEnum';
+export * from './butterValueEnum';
+export * from './compat';
+export * from './compose';
+export * from './exporters';
+export * from './generate';
+export * from './labels';
+export * from './native';
+export * from './sql';
 export { ButterEnumsErrorMessage } from './shared/error-message';
-
-
+export {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  ButterEnumsError,
+  ButterEnumsErrorCode,
+  ButterEnumsParseResult,
+  ButterEnumsTransitionError,
+} from './shared/errors';
+export {
+  ButterEnumsAliasOptions,
+  ButterEnumsDeprecatedAccess,
+} from './shared/aliases';
+export {
+  ButterEnumCodec,
+  ButterEnumCodecDecoded,
+  ButterEnumCodecIds,
+  ButterEnumCodecOptions,
+  ButterEnumCodecPacked,
+  ButterEnumCodecRegistry,
+  ButterEnumCodecUnknownPolicy,
+  UNKNOWN_ENUM_VALUE,
+} from './shared/codec';
+export { ButterEnumSet } from './shared/collections';
+export { ButterEnumsExtendOptions } from './shared/composition';
+export { ButterEnumsFreezeMode } from './shared/freeze';
+export {
+  ButterEnumOption,
+  ButterEnumOptionGroup,
+  ButterEnumOptionSort,
+} from './shared/options';
+export { ButterEnumCallback, ButterEnumEntry } from './shared/query';
+export { StandardSchemaV1 } from './shared/standard-schema';
+export { ButterEnumsValidateMode } from './shared/validate';
+export {
+  AnyButterEnum,
+  AnyButterKeyedEnum,
+  AnyButterTupleEnum,
+  KeyOfButterEnum,
+  ValueOfButterKeyedEnum,
+} from './shared/introspect';
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { ButterKeyedEnum } from "./butterKeyedEnum";
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { withLabels } from "./labels";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+} from "./shared/errors";
+
+describe("withLabels", () => {
+  const BaseFruits = ButterKeyedEnum(
+    {
+      apple: { color: "red" },
+      banana: { color: "yellow" },
+      lemon: { color: "yellow" },
+    },
+    {
+      tupleFactory: (fruits) => [fruits.lemon, fruits.banana, fruits.apple],
+    }
+  );
+  const Fruits = withLabels(BaseFruits, {
+    name: "Fruits",
+    defaultLocale: "en",
+    locales: {
+      en: { apple: "Apple", banana: "{count} bananas", lemon: "Lemon" },
+      pt: { apple: "Maçã", banana: "{count} bananas" },
+      "pt-BR": { lemon: "Limão" },
+      fr: {},
+    },
+  });
+
+  it("should keep the enum", () => {
+    expect(Fruits.enum.apple.color).toBe("red");
+    expect(Fruits.orderedKeys).toEqual(["lemon", "banana", "apple"]);
+    expect(Fruits.locales).toEqual(["en", "pt", "pt-BR", "fr"]);
+    expect(Fruits.defaultLocale).toBe("en");
+  });
+
+  it("should label keys with a fallback chain", () => {
+    expect(Fruits.label("apple")).toBe("Apple");
+    expect(Fruits.label("lemon", "pt-BR")).toBe("Limão");
+    expect(Fruits.label("apple", "pt-BR")).toBe("Maçã");
+    expect(Fruits.label("lemon", "pt")).toBe("Lemon");
+    expect(Fruits.label("apple", "fr")).toBe("Apple");
+    expect(Fruits.label("apple", "de-AT")).toBe("Apple");
+  });
+
+  it("should interpolate placeholders", () => {
+    expect(Fruits.label("banana", "pt-BR", { count: 3 })).toBe("3 bananas");
+    expect(Fruits.label("banana")).toBe("{count} bananas");
+    expect(Fruits.label("banana", "en", { other: 1 })).toBe("{count} bananas");
+  });
+
+  it("should list labels in tuple order", () => {
+    expect(Fruits.labels("pt-BR", { count: 2 })).toEqual([
+      { key: "lemon", label: "Limão" },
+      { key: "banana", label: "2 bananas" },
+      { key: "apple", label: "Maçã" },
+    ]);
+    expect(Object.isFrozen(Fruits.labels())).toBe(true);
+  });
+
+  it("should report missing translations", () => {
+    expect(Fruits.missingTranslations()).toEqual({
+      pt: ["lemon"],
+      "pt-BR": ["banana", "apple"],
+      fr: ["lemon", "banana", "apple"],
+    });
+    expect(Fruits.missingTranslations(["en", "de"])).toEqual({
+      de: ["lemon", "banana", "apple"],
+    });
+  });
+
+  it("should require every label in the default locale", () => {
+    const Colors = ButterTupleEnum(["red", "green"]);
+    expect(() =>
+      withLabels(Colors, {
+        defaultLocale: "en",
+        // @ts-expect-error - green has no label in the default locale
+        locales: { en: { red: "Red" } },
+      })
+    ).toThrow(ButterEnumsDefinitionError);
+    expect(() =>
+      withLabels(Colors, {
+        name: "Colors",
+        defaultLocale: "en",
+        // @ts-expect-error - en is missing
+        locales: { de: { red: "Rot", green: "Grün" } },
+      })
+    ).toThrow('Colors has no "en" label for "red", "green"');
+  });
+
+  it("should reject labels for unknown keys", () => {
+    const Colors = ButterTupleEnum(["red", "green"]);
+    expect(() =>
+      withLabels(Colors, {
+        defaultLocale: "en",
+        locales: {
+          en: { red: "Red", green: "Green" },
+          // @ts-expect-error - gren is not a key
+          de: { gren: "Grün" },
+        },
+      })
+    ).toThrow(
+      'Expected a key of ButterEnumLabels, but received "gren". Did you mean "green"?'
+    );
+    // @ts-expect-error - cherry is not a key
+    expect(() => Fruits.label("cherry")).toThrow(ButterEnumsAssertionError);
+  });
+
+  it("should only look up keys the dictionaries define", () => {
+    const Methods = withLabels(ButterTupleEnum(["constructor", "apply"]), {
+      defaultLocale: "en",
+      locales: {
+        en: { constructor: "Constructor", apply: "Apply" },
+        pt: JSON.parse('{ "apply": "Aplicar" }'),
+      },
+    });
+    expect(Methods.label("constructor", "pt")).toBe("Constructor");
+    expect(Methods.label("apply", "pt")).toBe("Aplicar");
+    expect(() => Fruits.label("constructor" as any)).toThrow(
+      ButterEnumsAssertionError
+    );
+  });
+});
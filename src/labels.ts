@@ -0,0 +1,245 @@
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  describeInput,
+} from "./shared/errors";
+import { extendEnum } from "./shared/extend";
+import {
+  AnyButterEnum,
+  KeyOfButterEnum,
+  orderedKeysOf,
+} from "./shared/introspect";
+import { suggestKeys } from "./shared/suggest";
+
+/**
+ * The labels of an enum in one locale, which may be missing some keys
+ *
+ * @template TKey The keys of the enum
+ */
+export type EnumLabelDictionary<TKey extends string> = {
+  readonly [K in TKey]?: string;
+};
+
+/**
+ * The values interpolated into `{placeholder}`s of a label
+ */
+export type EnumLabelValues = {
+  readonly [placeholder: string]: string | number | bigint;
+};
+
+/**
+ * A key of an enum with its label, as returned by labels
+ *
+ * @template TKey The keys of the enum
+ */
+export type EnumLabel<TKey extends string> = {
+  readonly key: TKey;
+  readonly label: string;
+};
+
+/**
+ * Attaches localized labels to an enum.
+ *
+ * Every key must have a label in the default locale, which is checked at compile time and at runtime.
+ * Other locales may be partial: labels fall back from the locale to its parents, and then to the default locale,
+ * e.g. `pt-BR` → `pt` → `en`.
+ *
+ * @example
+ * ```typescript
+ * const LocalizedFruits = withLabels(Fruits, {
+ *   defaultLocale: 'en',
+ *   locales: {
+ *     en: { apple: 'Apple', banana: '{count} bananas' },
+ *     pt: { apple: 'Maçã' },
+ *   },
+ * })
+ *
+ * LocalizedFruits.label('apple', 'pt-BR') // 'Maçã'
+ * LocalizedFruits.label('banana', 'pt-BR', { count: 3 }) // '3 bananas'
+ * LocalizedFruits.missingTranslations() // { pt: ['banana'] }
+ * ```
+ *
+ * @template TEnum The enum to label
+ * @template TDefaultLocale The locale every key must have a label in
+ * @template TLocales The labels, by locale
+ * @param butterEnum The enum to label
+ * @param options Configuration options
+ * @param options.name The name of the enum, used in error messages. Defaults to `"ButterEnumLabels"`
+ * @param options.defaultLocale The locale every key must have a label in, and the last fallback
+ * @param options.locales The labels, by locale
+ * @returns The enum, extended with label helpers
+ * @throws {ButterEnumsDefinitionError} If a key has no label in the default locale
+ * @throws {ButterEnumsAssertionError} If a locale has a label for a key that doesn't exist
+ */
+export function withLabels<
+  TEnum extends AnyButterEnum,
+  const TDefaultLocale extends string,
+  const TLocales extends {
+    [locale: string]: EnumLabelDictionary<KeyOfButterEnum<TEnum>>;
+  },
+>(
+  butterEnum: TEnum,
+  options: {
+    name?: string;
+    defaultLocale: TDefaultLocale;
+    locales: TLocales & {
+      [L in TDefaultLocale]: { readonly [K in KeyOfButterEnum<TEnum>]: string };
+    };
+  }
+) {
+  type TKey = KeyOfButterEnum<TEnum>;
+  type TLocale = (keyof TLocales & string) | TDefaultLocale;
+
+  const keys = orderedKeysOf(butterEnum) as readonly TKey[];
+  const { defaultLocale } = options;
+  const dictionaries = new Map<string, EnumLabelDictionary<TKey>>(
+    Object.entries(options.locales)
+  );
+  const enumName = options.name ?? "ButterEnumLabels";
+
+  for (const dictionary of dictionaries.values()) {
+    for (const key of Object.keys(dictionary)) {
+      if (!keys.includes(key as TKey)) {
+        throw new ButterEnumsAssertionError(
+          enumName,
+          "key",
+          key,
+          suggestKeys(key, keys)
+        );
+      }
+    }
+  }
+  const missingDefaults = missingKeys(defaultLocale);
+  if (missingDefaults.length > 0) {
+    throw new ButterEnumsDefinitionError(
+      "MISSING_KEY",
+      enumName,
+      `${enumName} has no ${describeInput(defaultLocale)} label for ${missingDefaults.map(describeInput).join(", ")}`
+    );
+  }
+
+  function missingKeys(locale: string): TKey[] {
+    const dictionary = dictionaries.get(locale) ?? {};
+    return keys.filter(
+      (key) => !Object.prototype.hasOwnProperty.call(dictionary, key)
+    );
+  }
+
+  /**
+   * The locales to look a label up in, from the most to the least specific
+   */
+  function fallbackChain(locale: string): string[] {
+    const chain: string[] = [];
+    const subtags = locale.split("-");
+    while (subtags.length > 0) {
+      chain.push(subtags.join("-"));
+      subtags.pop();
+    }
+    return [...chain, defaultLocale];
+  }
+
+  function label(
+    key: TKey,
+    locale: TLocale | (string & {}) = defaultLocale,
+    values?: EnumLabelValues
+  ): string {
+    for (const candidate of fallbackChain(locale)) {
+      const dictionary = dictionaries.get(candidate);
+      const text =
+        dictionary && Object.prototype.hasOwnProperty.call(dictionary, key)
+          ? dictionary[key]
+          : undefined;
+      if (text !== undefined) {
+        return values ? interpolate(text, values) : text;
+      }
+    }
+    throw new ButterEnumsAssertionError(
+      enumName,
+      "key",
+      key,
+      suggestKeys(key, keys)
+    );
+  }
+
+  return extendEnum(butterEnum, {
+    /**
+     * The locale every key has a label in, and the last fallback
+     *
+     * @type {TDefaultLocale}
+     */
+    defaultLocale,
+    /**
+     * The locales with labels
+     *
+     * @type {TLocale[]}
+     */
+    locales: Object.freeze([...dictionaries.keys()]) as readonly TLocale[],
+    /**
+     * Gets the label of a key, falling back from the locale to its parents, and then to the default locale.
+     * `{placeholder}`s are replaced with the given values.
+     *
+     * @example
+     * ```typescript
+     * LocalizedFruits.label('apple') // 'Apple'
+     * LocalizedFruits.label('apple', 'pt-BR') // 'Maçã'
+     * LocalizedFruits.label('banana', 'en', { count: 3 }) // '3 bananas'
+     * ```
+     *
+     * @param key The key to label
+     * @param locale The locale, e.g. `pt-BR`. Defaults to the default locale
+     * @param values The values of the placeholders in the label
+     * @returns {string} The label
+     * @throws {ButterEnumsAssertionError} If the key doesn't exist
+     */
+    label,
+    /**
+     * Gets the labels of every key in a locale, in the order of the enum
+     *
+     * @param locale The locale, e.g. `pt-BR`. Defaults to the default locale
+     * @param values The values of the placeholders in the labels
+     * @returns {readonly EnumLabel<TKey>[]} The keys with their labels
+     */
+    labels(
+      locale: TLocale | (string & {}) = defaultLocale,
+      values?: EnumLabelValues
+    ): readonly EnumLabel<TKey>[] {
+      return Object.freeze(
+        keys.map((key) => Object.freeze({ key, label: label(key, locale, values) }))
+      );
+    },
+    /**
+     * Lists the keys without a label, by locale, so CI can fail when a new key isn't translated.
+     * Locales that have every label are left out, so a fully translated enum reports `{}`.
+     *
+     * @example
+     * ```typescript
+     * expect(LocalizedFruits.missingTranslations()).toEqual({})
+     * ```
+     *
+     * @param locales The locales to check. Defaults to every locale with labels
+     * @returns The missing keys, by locale, in the order of the enum
+     */
+    missingTranslations(
+      locales: readonly (TLocale | (string & {}))[] = [...dictionaries.keys()]
+    ): { readonly [locale: string]: readonly TKey[] } {
+      return Object.freeze(
+        Object.fromEntries(
+          locales
+            .map((locale) => [locale, Object.freeze(missingKeys(locale))] as const)
+            .filter(([, missing]) => missing.length > 0)
+        )
+      );
+    },
+  });
+}
+
+/**
+ * Replaces the `{placeholder}`s of a label with values, leaving unknown placeholders as they are
+ */
+function interpolate(text: string, values: EnumLabelValues): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? String(values[name])
+      : placeholder
+  );
+}
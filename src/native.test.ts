@@ -0,0 +1,95 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { fromConstObject, fromNativeEnum } from "./native";
+import { ButterEnumsDefinitionError } from "./shared/errors";
+
+enum Status {
+  Active,
+  Suspended = 5,
+  Deleted,
+}
+
+enum Color {
+  Red = "red",
+  Green = "green",
+}
+
+enum Mixed {
+  No = 0,
+  Yes = "yes",
+}
+
+enum Identity {
+  red = "red",
+  green = "green",
+}
+
+enum Swapped {
+  left = "right",
+  right = "left",
+}
+
+describe("fromNativeEnum", () => {
+  it("should strip the reverse mappings of numeric enums", () => {
+    const Statuses = fromNativeEnum(Status, { name: "Status" });
+    expect(Statuses.keys).toEqual(["Active", "Suspended", "Deleted"]);
+    expect(Statuses.values).toEqual([0, 5, 6]);
+    expect(Statuses.isKey("0")).toBe(false);
+    expect(Statuses.fromValue(6)).toBe("Deleted");
+  });
+
+  it("should keep the types of the enum members", () => {
+    const Statuses = fromNativeEnum(Status, {
+      tupleFactory: (enumObject) => [
+        enumObject.Active,
+        enumObject.Suspended,
+        enumObject.Deleted,
+      ],
+    });
+    const status: Status = Statuses.enum.Active;
+    expect(status).toBe(Status.Active);
+    expect(Statuses.fromValue(Status.Suspended)).toBe("Suspended");
+    const deleted: Status.Deleted = Statuses.toValue("Deleted");
+    expect(deleted).toBe(6);
+    expectTypeOf(Statuses.fromValue(Status.Suspended)).toEqualTypeOf<"Suspended">();
+    expect(Statuses.orderedKeys).toEqual(["Active", "Suspended", "Deleted"]);
+  });
+
+  it("should convert string and heterogeneous enums", () => {
+    expect(fromNativeEnum(Color).enum).toEqual({ Red: "red", Green: "green" });
+    expect(fromNativeEnum(Mixed).enum).toEqual({ No: 0, Yes: "yes" });
+  });
+
+  it("should keep string members whose values are member names", () => {
+    expect(fromNativeEnum(Identity).enum).toEqual({ red: "red", green: "green" });
+    const Sides = fromNativeEnum(Swapped);
+    expect(Sides.enum).toEqual({ left: "right", right: "left" });
+    expect(Sides.fromValue("left")).toBe("right");
+  });
+
+  it("should convert back to an object shaped like the native enum", () => {
+    const native = fromNativeEnum(Status).toNativeEnumLike();
+    expect(native).toEqual({ ...Status });
+    expect(native[5]).toBe("Suspended");
+    expectTypeOf(native[Status.Active]).toEqualTypeOf<"Active">();
+    expect(fromNativeEnum(Color).toNativeEnumLike()).toEqual({ ...Color });
+  });
+});
+
+describe("fromConstObject", () => {
+  const Priority = { Low: "low", High: "high", Urgent: 3n } as const;
+
+  it("should keep the literal types of the object", () => {
+    const Priorities = fromConstObject(Priority);
+    expect(Priorities.keys).toEqual(["Low", "High", "Urgent"]);
+    expect(Priorities.fromValue(Priority.High)).toBe("High");
+    expectTypeOf(Priorities.enum.Urgent).toEqualTypeOf<typeof Priority.Urgent>();
+    expectTypeOf(Priorities.fromValue("low")).toEqualTypeOf<"Low">();
+  });
+
+  it("should reject duplicate values", () => {
+    expect(() =>
+      // @ts-expect-error - the values must be unique
+      fromConstObject({ Low: 1, Lowest: 1 } as const)
+    ).toThrow(ButterEnumsDefinitionError);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  ButterValueEnum,
+  ButterValueEnumDefinition,
+  ButterValueEnumOptions,
+  ButterValueEnumValue,
+} from "./butterValueEnum";
+
+/**
+ * Creates a value enum from a native TypeScript `enum`, for migrating legacy enums gradually.
+ *
+ * Numeric enums have a reverse mapping from each value to its key at runtime, e.g. `Status[0] === 'Active'`.
+ * Those entries are stripped, so the keys are only the members of the enum.
+ * The values keep their enum member types, so `Status.Active` and `Statuses.enum.Active` are interchangeable.
+ *
+ * @example
+ * ```typescript
+ * enum Status { Active, Suspended }
+ *
+ * const Statuses = fromNativeEnum(Status, { name: 'Status' })
+ *
+ * Statuses.keys // ['Active', 'Suspended']
+ * Statuses.enum.Active // Status.Active
+ * Statuses.fromValue(Status.Suspended) // 'Suspended'
+ * ```
+ *
+ * @template T The type of the native enum, i.e. `typeof Status`
+ * @template TTuple The tuple returned by the tupleFactory
+ * @param nativeEnum The native enum
+ * @param options The options of ButterValueEnum
+ * @returns The value enum
+ * @throws {ButterEnumsDefinitionError} If two members have the same value
+ */
+export function fromNativeEnum<
+  const T extends { [key: string]: string | number },
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = [],
+>(nativeEnum: T, options?: ButterValueEnumOptions<T, TTuple>) {
+  // A reverse mapping maps the number of a numeric member back to its name
+  const members = Object.fromEntries(
+    Object.entries(nativeEnum).filter(
+      ([key, value]) =>
+        !(
+          typeof value === "string" &&
+          typeof nativeEnum[value] === "number" &&
+          String(nativeEnum[value]) === key
+        )
+    )
+  );
+  return ButterValueEnum<T, TTuple>(members as any, options);
+}
+
+/**
+ * Creates a value enum from an `as const` object of numbers, strings or bigints, for migrating them gradually.
+ * The values keep their literal types, so `Status.Active` and `Statuses.enum.Active` are interchangeable.
+ *
+ * @example
+ * ```typescript
+ * const Status = { Active: 'active', Suspended: 'suspended' } as const
+ *
+ * const Statuses = fromConstObject(Status, { name: 'Status' })
+ *
+ * Statuses.fromValue(Status.Active) // 'Active'
+ * ```
+ *
+ * @template T The type of the object
+ * @template TTuple The tuple returned by the tupleFactory
+ * @param constObject The object mapping keys to values
+ * @param options The options of ButterValueEnum
+ * @returns The value enum
+ * @throws {ButterEnumsDefinitionError} If two keys have the same value
+ */
+export function fromConstObject<
+  const T extends { readonly [key: string]: ButterValueEnumValue },
+  TTuple extends [T[keyof T], ...T[keyof T][]] | [] = [],
+>(
+  constObject: ButterValueEnumDefinition<T>,
+  options?: ButterValueEnumOptions<T, TTuple>
+) {
+  return ButterValueEnum<T, TTuple>(constObject, options);
+}
@@ -0,0 +1,168 @@
+import { ButterEnumsDefinitionError, describeInput } from "./errors";
+
+/**
+ * Describes an access through an alias or a deprecated key, passed to onDeprecatedAccess
+ *
+ * @template TKey The keys of the enum
+ */
+export type ButterEnumsDeprecatedAccess<TKey> = {
+  /**
+   * The alias or deprecated key that was used
+   */
+  input: string;
+  /**
+   * The canonical key it resolved to
+   */
+  key: TKey;
+  /**
+   * Whether the input was an alias, rather than a deprecated key
+   */
+  alias: boolean;
+};
+
+/**
+ * The options for aliases and deprecated keys, shared by every kind of enum
+ *
+ * @template TKey The keys of the enum
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ */
+export type ButterEnumsAliasOptions<TKey, TAliases> = {
+  /**
+   * Legacy names that resolve to a key, e.g. `{ canceled: 'cancelled' }`.
+   * They are accepted by get, parse and normalize, but excluded from keys and tuples.
+   */
+  aliases?: TAliases & {
+    [A in keyof TAliases & TKey]: {
+      __error__: "An alias must not be a key of the enum";
+    };
+  };
+  /**
+   * Keys that are still valid, but should no longer be used
+   */
+  deprecated?: readonly TKey[];
+  /**
+   * Called when get, parse or normalize resolves an alias or a deprecated key, e.g. to log usages before removing them
+   */
+  onDeprecatedAccess?: (access: ButterEnumsDeprecatedAccess<TKey>) => void;
+};
+
+/**
+ * Utility type that keeps the aliases that lead to one of the keys of a derived enum, and aren't keys themselves
+ *
+ * @template TAliases The aliases, mapped to the keys they resolve to
+ * @template TKey The keys of the derived enum
+ */
+export type SurvivingAliases<TAliases, TKey> = {
+  [A in keyof TAliases as A extends TKey
+    ? never
+    : TAliases[A] extends TKey
+      ? A
+      : never]: TAliases[A];
+};
+
+/**
+ * Keeps the alias options that still apply to an enum derived with pick, omit, extend or filterBy:
+ * the aliases and deprecated keys that lead to one of its keys, and onDeprecatedAccess
+ *
+ * @param options The alias options of the original enum
+ * @param keys The keys of the derived enum
+ */
+export function deriveAliasOptions(
+  options:
+    | {
+        aliases?: object;
+        deprecated?: readonly unknown[];
+        onDeprecatedAccess?: unknown;
+      }
+    | undefined,
+  keys: readonly unknown[]
+) {
+  return {
+    aliases: Object.fromEntries(
+      Object.entries(options?.aliases ?? {}).filter(
+        ([alias, key]) => keys.includes(key) && !keys.includes(alias)
+      )
+    ),
+    deprecated: options?.deprecated?.filter((key) => keys.includes(key)),
+    onDeprecatedAccess: options?.onDeprecatedAccess,
+  };
+}
+
+/**
+ * Validates the aliases and deprecated keys of an enum, and creates a resolver for them
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param isKey Checks if the input is a canonical key of the enum
+ * @param options The alias options of the enum
+ * @throws {ButterEnumsDefinitionError} If an alias is a key, or an alias or deprecated key doesn't lead to a key
+ */
+export function makeAliasResolver<TKey extends PropertyKey>(
+  enumName: string,
+  isKey: (key: unknown) => key is TKey,
+  options: ButterEnumsAliasOptions<TKey, { [alias: string]: TKey }> = {}
+) {
+  const aliases: { readonly [alias: string]: TKey } = Object.freeze({
+    ...options.aliases,
+  });
+  const deprecated: readonly TKey[] = Object.freeze([
+    ...(options.deprecated ?? []),
+  ]);
+
+  for (const [alias, key] of Object.entries(aliases)) {
+    if (isKey(alias)) {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_ALIAS",
+        enumName,
+        `${enumName} has an alias ${describeInput(alias)}, which is already a key`
+      );
+    }
+    if (!isKey(key)) {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_ALIAS",
+        enumName,
+        `${enumName} has an alias ${describeInput(alias)} for ${describeInput(key)}, which is not a key`
+      );
+    }
+  }
+  for (const key of deprecated) {
+    if (!isKey(key)) {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_ALIAS",
+        enumName,
+        `${enumName} deprecates ${describeInput(key)}, which is not a key`
+      );
+    }
+  }
+
+  return {
+    aliases,
+    deprecated,
+    /**
+     * Resolves a key or alias to its canonical key, calling onDeprecatedAccess when needed
+     *
+     * @param input The untrusted input to resolve
+     * @returns The canonical key, or undefined if the input is neither a key nor an alias
+     */
+    resolve(input: unknown): TKey | undefined {
+      if (isKey(input)) {
+        if (deprecated.includes(input)) {
+          options.onDeprecatedAccess?.({
+            input: input as string,
+            key: input,
+            alias: false,
+          });
+        }
+        return input;
+      }
+      if (
+        typeof input === "string" &&
+        Object.prototype.hasOwnProperty.call(aliases, input)
+      ) {
+        const key = aliases[input]!;
+        options.onDeprecatedAccess?.({ input, key, alias: true });
+        return key;
+      }
+      return undefined;
+    },
+  };
+}
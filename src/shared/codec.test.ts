@@ -0,0 +1,105 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { ButterKeyedEnum } from '../butterKeyedEnum';
+import { ButterTupleEnum } from '../butterTupleEnum';
+import { UNKNOWN_ENUM_VALUE } from './codec';
+import { ButterEnumsAssertionError, ButterEnumsDefinitionError } from './errors';
+
+describe('codec', () => {
+  const Fruits = ButterTupleEnum(['apple', 'banana', 'lemon'], { name: 'Fruits' });
+  const FruitCodec = Fruits.codec({
+    ids: { apple: 1, banana: 2, lemon: 3 },
+    registry: { apple: 1, banana: 2, cherry: 4 },
+  });
+
+  it('should encode and decode keys with literal types', () => {
+    expect(FruitCodec.encode('banana')).toBe(2);
+    expect(FruitCodec.decode(3)).toBe('lemon');
+    expectTypeOf(FruitCodec.encode('banana')).toEqualTypeOf<2>();
+    expectTypeOf(FruitCodec.decode(3)).toEqualTypeOf<'lemon'>();
+    expectTypeOf(FruitCodec.decode(3 as unknown)).toEqualTypeOf<'apple' | 'banana' | 'lemon'>();
+  });
+
+  it('should throw on unknown ids by default', () => {
+    expect(() => FruitCodec.decode(4)).toThrow(ButterEnumsAssertionError);
+    expect(() => FruitCodec.decode('1')).toThrow('Expected a value of Fruits, but received "1"');
+  });
+
+  it('should decode unknown ids to the sentinel when configured', () => {
+    const LenientCodec = Fruits.codec({
+      ids: { apple: 1, banana: 2, lemon: 3 },
+      onUnknown: 'sentinel',
+    });
+    expect(LenientCodec.decode(4)).toBe(UNKNOWN_ENUM_VALUE);
+    expect(LenientCodec.decodeArray([1, 9])).toEqual(['apple', UNKNOWN_ENUM_VALUE]);
+    expectTypeOf(LenientCodec.decode(4 as unknown)).toEqualTypeOf<
+      'apple' | 'banana' | 'lemon' | typeof UNKNOWN_ENUM_VALUE
+    >();
+  });
+
+  it('should pack arrays into the smallest typed array', () => {
+    const packed = FruitCodec.encodeArray(['lemon', 'apple', 'lemon']);
+    expect(packed).toBeInstanceOf(Uint8Array);
+    expect([...packed]).toEqual([3, 1, 3]);
+    expect(FruitCodec.decodeArray(packed)).toEqual(['lemon', 'apple', 'lemon']);
+
+    const WideCodec = Fruits.codec({ ids: { apple: 1, banana: 300, lemon: 70000 } });
+    expect(WideCodec.encodeArray(['apple'])).toBeInstanceOf(Uint32Array);
+  });
+
+  it('should encode short codes', () => {
+    const CodeCodec = Fruits.codec({ ids: { apple: 'a', banana: 'b', lemon: 'l' } });
+    expect(CodeCodec.encodeArray(['banana', 'lemon'])).toEqual(['b', 'l']);
+    expect(CodeCodec.decodeArray(['a'])).toEqual(['apple']);
+  });
+
+  it('should encode and decode properties with JSON helpers', () => {
+    const event = { fruit: 'banana', basket: ['apple', 'lemon'], note: 'apple' };
+    const json = JSON.stringify(event, FruitCodec.replacer(['fruit', 'basket']));
+    expect(json).toBe('{"fruit":2,"basket":[1,3],"note":"apple"}');
+    expect(JSON.parse(json, FruitCodec.reviver(['fruit', 'basket']))).toEqual(event);
+  });
+
+  it('should keep retired ids in the registry', () => {
+    expect(FruitCodec.registry).toEqual({ apple: 1, banana: 2, cherry: 4, lemon: 3 });
+    expect(FruitCodec.retired).toEqual(['cherry']);
+    expect(() =>
+      Fruits.codec({
+        ids: { apple: 1, banana: 2, lemon: 4 },
+        registry: FruitCodec.registry,
+      })
+    ).toThrow(
+      'The codec of Fruits gives "lemon" the id 4, but it was assigned to "cherry". Retired ids must never be reused'
+    );
+    expect(() =>
+      Fruits.codec({
+        ids: { apple: 1, banana: 5, lemon: 3 },
+        registry: FruitCodec.registry,
+      })
+    ).toThrow('The codec of Fruits gives "banana" the id 5, but it was assigned 2');
+  });
+
+  it('should reject invalid ids', () => {
+    expect(() =>
+      // @ts-expect-error - the ids must be unique
+      Fruits.codec({ ids: { apple: 1, banana: 1, lemon: 3 } })
+    ).toThrow(ButterEnumsDefinitionError);
+    expect(() =>
+      // @ts-expect-error - every key needs an id
+      Fruits.codec({ ids: { apple: 1, banana: 2 } })
+    ).toThrow('The codec of Fruits has no id for "lemon"');
+    expect(() =>
+      // @ts-expect-error - the keys must be in the enum
+      Fruits.codec({ ids: { apple: 1, banana: 2, lemon: 3, cherry: 4 } })
+    ).toThrow(ButterEnumsAssertionError);
+    expect(() => Fruits.codec({ ids: { apple: 1, banana: 2, lemon: -1 } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ID' })
+    );
+  });
+
+  it('should be available on keyed enums', () => {
+    const Colors = ButterKeyedEnum({ red: { hex: '#f00' }, green: { hex: '#0f0' } });
+    const ColorCodec = Colors.codec({ ids: { red: 'r', green: 'g' } });
+    expect(ColorCodec.decode('g')).toBe('green');
+    expectTypeOf(ColorCodec.encode('red')).toEqualTypeOf<'r'>();
+  });
+});
@@ -0,0 +1,328 @@
+import { ButterValueEnumDefinition } from "../butterValueEnum";
+import { ButterEnumsErrorMessage } from "./error-message";
+import {
+  ButterEnumsAssertionError,
+  ButterEnumsDefinitionError,
+  describeInput,
+} from "./errors";
+
+/**
+ * Returned by the decoders of a codec for ids that aren't assigned, when its policy is `"sentinel"`
+ */
+export const UNKNOWN_ENUM_VALUE: unique symbol = Symbol("butter-enums.unknown");
+
+/**
+ * The ids of a codec: a small non-negative integer or a short code for every key
+ *
+ * @template TKey The keys of the enum
+ */
+export type ButterEnumCodecIds<TKey extends string> =
+  | { readonly [K in TKey]: number }
+  | { readonly [K in TKey]: string };
+
+/**
+ * What the decoders of a codec do with ids that aren't assigned:
+ * throw, or return UNKNOWN_ENUM_VALUE so events from newer producers can still be read
+ */
+export type ButterEnumCodecUnknownPolicy = "throw" | "sentinel";
+
+/**
+ * The options of codec
+ *
+ * @template TKey The keys of the enum
+ * @template TIds The ids of the keys
+ * @template TOnUnknown What the decoders do with ids that aren't assigned
+ */
+export type ButterEnumCodecOptions<
+  TKey extends string,
+  TIds extends ButterEnumCodecIds<TKey>,
+  TOnUnknown extends ButterEnumCodecUnknownPolicy,
+> = {
+  /**
+   * The id of every key, which must be unique
+   */
+  ids: ButterValueEnumDefinition<TIds> & {
+    [K in Exclude<keyof TIds, TKey>]: ButterEnumsErrorMessage<"This key is not in the enum">;
+  };
+  /**
+   * Every id that was ever assigned, by key, usually read from a committed lockfile.
+   * Ids of removed keys stay in the registry, so they are never given to another key.
+   */
+  registry?: {
+    readonly [key: string]: TIds[TKey] extends number ? number : string;
+  };
+  /**
+   * What the decoders do with ids that aren't assigned. Defaults to `"throw"`
+   */
+  onUnknown?: TOnUnknown;
+};
+
+/**
+ * A compact, versioned serialization of the keys of an enum, as returned by codec
+ *
+ * @template TKey The keys of the enum
+ * @template TIds The ids of the keys
+ * @template TOnUnknown What the decoders do with ids that aren't assigned
+ */
+export interface ButterEnumCodec<
+  TKey extends string,
+  TIds extends ButterEnumCodecIds<TKey>,
+  TOnUnknown extends ButterEnumCodecUnknownPolicy,
+> {
+  /**
+   * The id of every key
+   */
+  readonly ids: Readonly<TIds>;
+  /**
+   * Every id that was ever assigned, by key: the registry it was created with, and the ids of new keys.
+   * Write it back to the lockfile so that retired ids are never reused.
+   */
+  readonly registry: ButterEnumCodecRegistry<TIds[TKey]>;
+  /**
+   * The keys in the registry that are no longer in the enum
+   */
+  readonly retired: readonly string[];
+  /**
+   * Gets the id of a key
+   */
+  encode<K extends TKey>(key: K): TIds[K];
+  /**
+   * Gets the key of an id
+   */
+  decode<TId extends TIds[TKey]>(id: TId): { [K in TKey]: TIds[K] extends TId ? K : never }[TKey];
+  decode(id: unknown): ButterEnumCodecDecoded<TKey, TOnUnknown>;
+  /**
+   * Packs the ids of keys: into the smallest unsigned typed array that fits every id, or an array of short codes
+   */
+  encodeArray(keys: readonly TKey[]): ButterEnumCodecPacked<TIds[TKey]>;
+  /**
+   * Gets the keys of packed ids
+   */
+  decodeArray(ids: ArrayLike<unknown>): ButterEnumCodecDecoded<TKey, TOnUnknown>[];
+  /**
+   * Creates a JSON.stringify replacer that encodes the keys, or arrays of keys, in the given properties
+   */
+  replacer(properties: readonly string[]): (key: string, value: unknown) => unknown;
+  /**
+   * Creates a JSON.parse reviver that decodes the ids, or arrays of ids, in the given properties
+   */
+  reviver(properties: readonly string[]): (key: string, value: unknown) => unknown;
+}
+
+/**
+ * Utility type for what the decoders of a codec return
+ */
+export type ButterEnumCodecDecoded<
+  TKey,
+  TOnUnknown extends ButterEnumCodecUnknownPolicy,
+> = TOnUnknown extends "sentinel" ? TKey | typeof UNKNOWN_ENUM_VALUE : TKey;
+
+/**
+ * Every id that was ever assigned by a codec, by key
+ *
+ * @template TId The ids of the codec, which are widened so the ids of retired keys fit
+ */
+export type ButterEnumCodecRegistry<TId> = {
+  readonly [key: string]: [TId] extends [number] ? number : string;
+};
+
+/**
+ * Utility type for what encodeArray returns
+ */
+export type ButterEnumCodecPacked<TId> = [TId] extends [number]
+  ? Uint8Array | Uint16Array | Uint32Array
+  : TId[];
+
+/**
+ * Creates the codec method for the keys of an enum
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param orderedKeys The keys in the order of the enum
+ * @param assertKey Narrows a key, throwing if it's not in the enum
+ */
+export function makeCodecMethods<TKey extends string>(
+  enumName: string,
+  orderedKeys: () => readonly TKey[],
+  assertKey: (key: unknown) => TKey
+) {
+  return {
+    /**
+     * Creates a codec that serializes keys to stable ids, for event streams and storage where the key is too large
+     * and ordinal indexes would silently change meaning when the enum changes.
+     *
+     * @example
+     * ```typescript
+     * const FruitCodec = Fruits.codec({
+     *   ids: { apple: 1, banana: 2, lemon: 3 },
+     *   registry: { apple: 1, banana: 2, cherry: 4, lemon: 3 },
+     * })
+     *
+     * FruitCodec.encode('banana') // 2
+     * FruitCodec.decode(2) // 'banana'
+     * FruitCodec.encodeArray(['apple', 'lemon']) // Uint8Array [1, 3]
+     * JSON.stringify(event, FruitCodec.replacer(['fruit'])) // '{"fruit":2}'
+     * ```
+     *
+     * @param options Configuration options
+     * @param options.ids The id of every key, small non-negative integers or short codes, which must be unique
+     * @param options.registry Every id that was ever assigned, by key, so retired ids are never reused
+     * @param options.onUnknown `"throw"` (default) or `"sentinel"` to decode unknown ids to UNKNOWN_ENUM_VALUE
+     * @returns {ButterEnumCodec<TKey, TIds, TOnUnknown>} The frozen codec
+     * @throws {ButterEnumsDefinitionError} If a key has no id, an id is invalid or duplicated, or an id conflicts with the registry
+     * @throws {ButterEnumsAssertionError} If a key of the ids is not in the enum
+     */
+    codec<
+      const TIds extends ButterEnumCodecIds<TKey>,
+      const TOnUnknown extends ButterEnumCodecUnknownPolicy = "throw",
+    >(
+      options: ButterEnumCodecOptions<TKey, TIds, TOnUnknown>
+    ): ButterEnumCodec<TKey, TIds, TOnUnknown> {
+      return createCodec(enumName, orderedKeys(), assertKey, options);
+    },
+  };
+}
+
+function createCodec<
+  TKey extends string,
+  TIds extends ButterEnumCodecIds<TKey>,
+  TOnUnknown extends ButterEnumCodecUnknownPolicy,
+>(
+  enumName: string,
+  keys: readonly TKey[],
+  assertKey: (key: unknown) => TKey,
+  options: ButterEnumCodecOptions<TKey, TIds, TOnUnknown>
+): ButterEnumCodec<TKey, TIds, TOnUnknown> {
+  type TId = TIds[TKey];
+  const ids = options.ids as unknown as Record<TKey, TId>;
+  Object.keys(ids).forEach(assertKey);
+
+  const keysById = new Map<unknown, TKey>();
+  for (const key of keys) {
+    if (!Object.prototype.hasOwnProperty.call(ids, key)) {
+      throw new ButterEnumsDefinitionError(
+        "MISSING_KEY",
+        enumName,
+        `The codec of ${enumName} has no id for ${describeInput(key)}`
+      );
+    }
+    const id = ids[key];
+    assertValidId(id);
+    const duplicate = keysById.get(id);
+    if (duplicate !== undefined) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_VALUE",
+        enumName,
+        `The codec of ${enumName} has ${describeInput(id)} as the id of both ${describeInput(duplicate)} and ${describeInput(key)}`
+      );
+    }
+    keysById.set(id, key);
+  }
+
+  const registry: Record<string, unknown> = { ...options.registry };
+  for (const [registeredKey, registeredId] of Object.entries(registry)) {
+    const key = keysById.get(registeredId);
+    if (key !== undefined && key !== registeredKey) {
+      throw new ButterEnumsDefinitionError(
+        "ID_REASSIGNED",
+        enumName,
+        `The codec of ${enumName} gives ${describeInput(key)} the id ${describeInput(registeredId)}, but it was assigned to ${describeInput(registeredKey)}. Retired ids must never be reused`
+      );
+    }
+  }
+  for (const key of keys) {
+    if (
+      Object.prototype.hasOwnProperty.call(registry, key) &&
+      registry[key] !== ids[key]
+    ) {
+      throw new ButterEnumsDefinitionError(
+        "ID_REASSIGNED",
+        enumName,
+        `The codec of ${enumName} gives ${describeInput(key)} the id ${describeInput(ids[key])}, but it was assigned ${describeInput(registry[key])}`
+      );
+    }
+    registry[key] = ids[key];
+  }
+
+  const largestId = Math.max(
+    0,
+    ...Object.values(registry).filter(
+      (id): id is number => typeof id === "number"
+    )
+  );
+  const onUnknown = options.onUnknown ?? "throw";
+
+  function assertValidId(id: unknown) {
+    const valid =
+      typeof id === "number"
+        ? Number.isInteger(id) && id >= 0 && id <= 0xffffffff
+        : typeof id === "string" && id !== "";
+    if (!valid) {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_ID",
+        enumName,
+        `The codec of ${enumName} has ${describeInput(id)} as an id, but ids must be integers from 0 to 4294967295, or non-empty strings`
+      );
+    }
+  }
+
+  function encode(key: unknown): TId {
+    return ids[assertKey(key)];
+  }
+
+  function decode(id: unknown): ButterEnumCodecDecoded<TKey, TOnUnknown> {
+    const key = keysById.get(id);
+    if (key !== undefined) {
+      return key;
+    }
+    if (onUnknown === "sentinel") {
+      return UNKNOWN_ENUM_VALUE as ButterEnumCodecDecoded<TKey, TOnUnknown>;
+    }
+    throw new ButterEnumsAssertionError(enumName, "value", id);
+  }
+
+  return Object.freeze({
+    ids: Object.freeze({ ...ids }) as unknown as Readonly<TIds>,
+    registry: Object.freeze(registry) as ButterEnumCodecRegistry<TId>,
+    retired: Object.freeze(
+      Object.keys(registry).filter((key) => !keys.includes(key as TKey))
+    ),
+    encode: encode as ButterEnumCodec<TKey, TIds, TOnUnknown>["encode"],
+    decode: decode as ButterEnumCodec<TKey, TIds, TOnUnknown>["decode"],
+    encodeArray(keysToEncode: readonly TKey[]) {
+      const encoded = keysToEncode.map(encode);
+      if (keysById.size > 0 && typeof keysById.keys().next().value === "string") {
+        return encoded as ButterEnumCodecPacked<TId>;
+      }
+      const packed =
+        largestId <= 0xff
+          ? Uint8Array
+          : largestId <= 0xffff
+            ? Uint16Array
+            : Uint32Array;
+      return packed.from(encoded as number[]) as ButterEnumCodecPacked<TId>;
+    },
+    decodeArray(packedIds: ArrayLike<unknown>) {
+      return Array.from(packedIds, decode);
+    },
+    replacer(properties: readonly string[]) {
+      return (property: string, value: unknown) =>
+        !properties.includes(property)
+          ? value
+          : Array.isArray(value)
+            ? value.map(encode)
+            : typeof value === "string"
+              ? encode(value)
+              : value;
+    },
+    reviver(properties: readonly string[]) {
+      return (property: string, value: unknown) =>
+        !properties.includes(property)
+          ? value
+          : Array.isArray(value)
+            ? value.map(decode)
+            : typeof value === "number" || typeof value === "string"
+              ? decode(value)
+              : value;
+    },
+  });
+}
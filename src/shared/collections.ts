@@ -0,0 +1,201 @@
+import { ButterEnumsDefinitionError, describeInput } from "./errors";
+
+/**
+ * An immutable set of keys of one enum
+ *
+ * Iterates in the order of the enum, and serializes to a JSON array of keys.
+ * Every operation returns a new set, and rejects keys that aren't in the enum.
+ *
+ * @template TKey The keys of the enum
+ */
+export interface ButterEnumSet<TKey> extends Iterable<TKey> {
+  /**
+   * The number of keys in the set
+   */
+  readonly size: number;
+  /**
+   * Checks if a key is in the set
+   */
+  has(key: unknown): key is TKey;
+  /**
+   * Creates a set with the keys added
+   */
+  add(...keys: TKey[]): ButterEnumSet<TKey>;
+  /**
+   * Creates a set with the keys removed
+   */
+  remove(...keys: TKey[]): ButterEnumSet<TKey>;
+  /**
+   * Creates a set of the keys in either set
+   */
+  union(other: Iterable<TKey>): ButterEnumSet<TKey>;
+  /**
+   * Creates a set of the keys in both sets
+   */
+  intersect(other: Iterable<TKey>): ButterEnumSet<TKey>;
+  /**
+   * Creates a set of the keys in this set but not in the other
+   */
+  difference(other: Iterable<TKey>): ButterEnumSet<TKey>;
+  /**
+   * Creates a set of the keys of the enum that aren't in this set
+   */
+  complement(): ButterEnumSet<TKey>;
+  /**
+   * Checks if every key of this set is in the other
+   */
+  isSubsetOf(other: Iterable<TKey>): boolean;
+  /**
+   * Checks if both sets have the same keys
+   */
+  equals(other: Iterable<TKey>): boolean;
+  /**
+   * The keys in the order of the enum
+   */
+  toArray(): TKey[];
+  /**
+   * The keys in the order of the enum, called by JSON.stringify
+   */
+  toJSON(): TKey[];
+}
+
+/**
+ * Creates the record and set methods for the keys of an enum
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param orderedKeys The keys in the order of the enum
+ * @param valueOf Gets the value of a key
+ * @param assertKey Narrows a key, throwing if it's not in the enum
+ */
+export function makeCollectionMethods<TKey extends PropertyKey, TValue>(
+  enumName: string,
+  orderedKeys: () => readonly TKey[],
+  valueOf: (key: TKey) => TValue,
+  assertKey: (key: unknown) => TKey
+) {
+  function makeSet(keys: ReadonlySet<TKey>): ButterEnumSet<TKey> {
+    const toKeySet = (other: Iterable<TKey>) =>
+      new Set(Array.from(other, (key) => assertKey(key)));
+    const toArray = () => orderedKeys().filter((key) => keys.has(key));
+
+    return Object.freeze({
+      get size() {
+        return keys.size;
+      },
+      has(key: unknown): key is TKey {
+        return keys.has(key as TKey);
+      },
+      add(...added: TKey[]) {
+        return makeSet(new Set([...keys, ...toKeySet(added)]));
+      },
+      remove(...removed: TKey[]) {
+        const removedKeys = toKeySet(removed);
+        return makeSet(new Set([...keys].filter((key) => !removedKeys.has(key))));
+      },
+      union(other: Iterable<TKey>) {
+        return makeSet(new Set([...keys, ...toKeySet(other)]));
+      },
+      intersect(other: Iterable<TKey>) {
+        const otherKeys = toKeySet(other);
+        return makeSet(new Set([...keys].filter((key) => otherKeys.has(key))));
+      },
+      difference(other: Iterable<TKey>) {
+        const otherKeys = toKeySet(other);
+        return makeSet(new Set([...keys].filter((key) => !otherKeys.has(key))));
+      },
+      complement() {
+        return makeSet(new Set(orderedKeys().filter((key) => !keys.has(key))));
+      },
+      isSubsetOf(other: Iterable<TKey>) {
+        const otherKeys = toKeySet(other);
+        return [...keys].every((key) => otherKeys.has(key));
+      },
+      equals(other: Iterable<TKey>) {
+        const otherKeys = toKeySet(other);
+        return (
+          otherKeys.size === keys.size &&
+          [...keys].every((key) => otherKeys.has(key))
+        );
+      },
+      toArray,
+      toJSON: toArray,
+      [Symbol.iterator]() {
+        return toArray()[Symbol.iterator]();
+      },
+    });
+  }
+
+  return {
+    /**
+     * Creates a frozen object with an entry for every key of the enum
+     *
+     * @example
+     * ```typescript
+     * const prices = Fruits.record((fruit, key) => fruit.sweetness * 10)
+     * // { apple: 70, banana: 80 }
+     * ```
+     *
+     * @param mapper Maps each value and key to the value of its entry
+     * @returns An object with an entry for every key, in the order of the enum
+     */
+    record<TResult>(
+      mapper: (value: TValue, key: TKey) => TResult
+    ): { readonly [K in TKey]: TResult } {
+      return Object.freeze(
+        Object.fromEntries(
+          orderedKeys().map((key) => [key, mapper(valueOf(key), key)])
+        )
+      ) as { readonly [K in TKey]: TResult };
+    },
+    /**
+     * Freezes an object with an entry for every key of the enum.
+     *
+     * It fails to compile if an entry is missing or if there is an entry for a key that doesn't exist.
+     *
+     * @example
+     * ```typescript
+     * const emojis = Fruits.recordOf({ apple: '🍎', banana: '🍌' })
+     * ```
+     *
+     * @param entries An entry for every key
+     * @returns A frozen copy of the entries, in the order of the enum
+     * @throws {ButterEnumsAssertionError} If there is an entry for a key that doesn't exist
+     * @throws {ButterEnumsDefinitionError} If an entry is missing
+     */
+    recordOf<TEntries extends { [K in TKey]: unknown }>(
+      entries: TEntries & { [K in Exclude<keyof TEntries, TKey>]: never }
+    ): Readonly<TEntries> {
+      Object.keys(entries).forEach(assertKey);
+      const missing = orderedKeys().filter(
+        (key) => !Object.prototype.hasOwnProperty.call(entries, key)
+      );
+      if (missing.length > 0) {
+        throw new ButterEnumsDefinitionError(
+          "MISSING_KEY",
+          enumName,
+          `The record of ${enumName} is missing ${missing.map(describeInput).join(", ")}`
+        );
+      }
+      return Object.freeze(
+        Object.fromEntries(orderedKeys().map((key) => [key, entries[key]]))
+      ) as Readonly<TEntries>;
+    },
+    /**
+     * Creates an immutable set of keys of the enum
+     *
+     * @example
+     * ```typescript
+     * const citrus = Fruits.setOf(['lemon', 'orange'])
+     * citrus.union(['apple']).toArray() // ['apple', 'lemon', 'orange']
+     * JSON.stringify(citrus.complement()) // '["apple","banana"]'
+     * ```
+     *
+     * @param keys The keys in the set
+     * @returns {ButterEnumSet<TKey>} The set
+     * @throws {ButterEnumsAssertionError} If a key is not in the enum
+     */
+    setOf(keys: Iterable<TKey> = []): ButterEnumSet<TKey> {
+      return makeSet(new Set(Array.from(keys, (key) => assertKey(key))));
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { ButterEnumsDefinitionError, describeInput } from "./errors";
+
+/**
+ * Utility type that keeps the elements of a tuple that extend a type, preserving their order.
+ * Arrays that aren't tuples are filtered to an array of the matching elements.
+ */
+export type FilterTuple<TTuple extends readonly unknown[], TMatch> =
+  TTuple extends readonly [infer THead, ...infer TRest]
+    ? THead extends TMatch
+      ? [THead, ...FilterTuple<TRest, TMatch>]
+      : FilterTuple<TRest, TMatch>
+    : TTuple extends readonly []
+      ? []
+      : Extract<TTuple[number], TMatch>[];
+
+/**
+ * Utility type that merges two keyed enum definitions, the entries of the second replacing those of the first
+ */
+export type MergeDefinitions<TBase, TExtension> = {
+  [K in keyof TBase | keyof TExtension]: K extends keyof TExtension
+    ? TExtension[K]
+    : TBase[K & keyof TBase];
+};
+
+/**
+ * Utility type that removes the hoisted key from the values of a keyed enum, recovering its definition
+ */
+export type StripKeyName<TEnum, KeyName extends PropertyKey> = {
+  [K in keyof TEnum]: Omit<TEnum[K], KeyName>;
+};
+
+/**
+ * Utility type that turns colliding keys into a compile error
+ */
+export type NoCollisions<TExisting, TAdded> = [
+  Extract<TAdded, TExisting>,
+] extends [never]
+  ? unknown
+  : {
+      __error__: "These keys already exist, pass { override: true } to replace them";
+      keys: Extract<TAdded, TExisting>;
+    };
+
+/**
+ * The options of the methods that add keys to an enum
+ */
+export type ButterEnumsExtendOptions = {
+  /**
+   * Whether keys that already exist are replaced instead of throwing
+   */
+  override?: boolean;
+  /**
+   * The name of the new enum, used in error messages. Defaults to the name of the enum being extended
+   */
+  name?: string;
+};
+
+/**
+ * Throws if any added key already exists, unless overriding
+ *
+ * @param enumName The name of the enum being extended
+ * @param existing The keys of the enum being extended
+ * @param added The keys being added
+ * @param override Whether existing keys may be replaced
+ * @throws {ButterEnumsDefinitionError} If a key collides and override is not set
+ */
+export function assertNoCollisions(
+  enumName: string,
+  existing: readonly string[],
+  added: readonly string[],
+  override: boolean | undefined
+) {
+  if (override) {
+    return;
+  }
+  const collisions = added.filter((key) => existing.includes(key));
+  if (collisions.length > 0) {
+    throw new ButterEnumsDefinitionError(
+      "DUPLICATE_KEY",
+      enumName,
+      `${enumName} already has ${collisions.map(describeInput).join(", ")}. Pass { override: true } to replace ${collisions.length > 1 ? "them" : "it"}`
+    );
+  }
+}
+
+/**
+ * Copies the value of a keyed enum without its hoisted key, so it can be used in a new definition
+ *
+ * @param value The value of a keyed enum
+ * @param keyName The name of the hoisted key
+ * @returns The inner object of the definition
+ */
+export function stripKeyName(
+  value: unknown,
+  keyName: string
+): Record<string, unknown> {
+  const { [keyName]: _key, ...definition } = value as Record<string, unknown>;
+  return definition;
+}
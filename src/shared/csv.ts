@@ -0,0 +1,70 @@
+/**
+ * Parses CSV (RFC 4180) into rows of cells.
+ * Cells may be quoted to contain commas, newlines and `""` escaped quotes, and rows may end with CRLF.
+ *
+ * @param text The CSV text
+ * @returns The rows, without trailing empty lines
+ * @throws {SyntaxError} If a quoted cell is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new SyntaxError("The CSV has a quoted cell that is never closed");
+  }
+  rows.push([...row, cell]);
+
+  while (rows.length > 0 && rows[rows.length - 1]!.every((value) => value === "")) {
+    rows.pop();
+  }
+  return rows;
+}
+
+/**
+ * Parses CSV with a header row into one object per row, keyed by the header
+ *
+ * @param text The CSV text
+ * @returns The rows as objects
+ * @throws {SyntaxError} If a row has more cells than the header
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text);
+  return rows.map((row, index) => {
+    if (row.length > header.length) {
+      throw new SyntaxError(
+        `Row ${index + 2} of the CSV has ${row.length} cells, but the header has ${header.length}`
+      );
+    }
+    return Object.fromEntries(header.map((column, cell) => [column, row[cell] ?? ""]));
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Checks if the code runs in production, i.e. `process.env.NODE_ENV` is `"production"`.
+ *
+ * `process.env.NODE_ENV` is read as is, without checking that `process` exists first,
+ * because bundlers replace that expression with a literal, e.g. `"production" === "production"`,
+ * and there is no `process` in the browser to check. When it isn't replaced and `process`
+ * doesn't exist, reading it throws and this is false.
+ *
+ * @returns {boolean} True if the code runs in production
+ */
+export function isProduction(): boolean {
+  try {
+    return process.env.NODE_ENV === "production";
+  } catch {
+    return false;
+  }
+}
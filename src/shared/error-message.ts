@@ -9,12 +9,3 @@ export type ButterEnumsErrorMessage<T> = {
   __error__: T;
   value: never;
 };
-
-
-export function makeButterEnumsErrorMessage<T>(message: T): ButterEnumsErrorMessage<T> {
-  return {
-    __error__: message,
-    value: undefined as never,
-  };
-}
-  
\ No newline at end of file
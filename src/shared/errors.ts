@@ -0,0 +1,210 @@
+/**
+ * The stable codes of every error thrown by ButterEnums.
+ *
+ * * `UNKNOWN_KEY` - An input was expected to be a key of an enum, but isn't
+ * * `INVALID_VALUE` - An input was expected to be a value of an enum, but isn't
+ * * `MISSING_TUPLE_FACTORY` - A tuple dependent feature was used on a keyed enum without a tupleFactory
+ * * `DUPLICATE_KEY` - A key appears more than once in an enum definition
+ * * `DUPLICATE_VALUE` - A value that must be unique across entries appears more than once
+ * * `KEYNAME_CONFLICT` - An inner object of a keyed enum already has the keyName property
+ * * `INVALID_IDENTIFIER` - A key can't be represented in the target of an exporter
+ * * `INVALID_SNAPSHOT` - A serialized enum snapshot can't be read
+ * * `INVALID_TRANSITION` - A state enum was asked to make a transition it doesn't declare
+ * * `UNKNOWN_STATE` - The transitions of a state enum reference a state that doesn't exist
+ * * `UNREACHABLE_STATE` - A state of a state enum can't be reached from any initial state
+ * * `BIT_ASSIGNMENT_CHANGED` - The flags of a flags enum changed in a way that shifts their bits
+ * * `MISSING_KEY` - A record of an enum, or the tuple returned by a tupleFactory, doesn't have an entry for every key
+ * * `INVALID_ALIAS` - An alias is also a key, or an alias or deprecated key doesn't lead to a key
+ * * `INVALID_ID` - An id of a codec is not a small non-negative integer or a non-empty string
+ * * `ID_REASSIGNED` - An id of a codec was assigned to a different key in its registry, or a key's id changed
+ * * `INVALID_KEY` - A key of a tuple enum is not a non-empty string
+ * * `INVALID_TUPLE` - The tupleFactory of a keyed enum returned something that isn't a value of the enum
+ * * `UNKNOWN_VARIANT` - The payloads of a union enum reference a variant that doesn't exist
+ */
+export type ButterEnumsErrorCode =
+  | "UNKNOWN_KEY"
+  | "INVALID_VALUE"
+  | "MISSING_TUPLE_FACTORY"
+  | "DUPLICATE_KEY"
+  | "DUPLICATE_VALUE"
+  | "KEYNAME_CONFLICT"
+  | "INVALID_IDENTIFIER"
+  | "INVALID_SNAPSHOT"
+  | "INVALID_TRANSITION"
+  | "UNKNOWN_STATE"
+  | "UNREACHABLE_STATE"
+  | "BIT_ASSIGNMENT_CHANGED"
+  | "MISSING_KEY"
+  | "INVALID_ALIAS"
+  | "INVALID_ID"
+  | "ID_REASSIGNED"
+  | "INVALID_KEY"
+  | "INVALID_TUPLE"
+  | "UNKNOWN_VARIANT";
+
+/**
+ * The base class of every error thrown by ButterEnums.
+ *
+ * Switch on `code` rather than the message, the codes are stable between versions.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Colors.parse(input)
+ * } catch (error) {
+ *   if (error instanceof ButterEnumsError && error.code === 'UNKNOWN_KEY') {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export class ButterEnumsError extends Error {
+  /**
+   * The stable code of the error
+   */
+  readonly code: ButterEnumsErrorCode;
+  /**
+   * The name of the enum that threw the error
+   */
+  readonly enumName: string;
+
+  constructor(code: ButterEnumsErrorCode, enumName: string, message: string) {
+    super(message);
+    this.name = "ButterEnumsError";
+    this.code = code;
+    this.enumName = enumName;
+  }
+}
+
+/**
+ * Thrown when an untrusted input is asserted or parsed to be a key or value of an enum, but isn't.
+ *
+ * @example
+ * ```typescript
+ * const Colors = ButterTupleEnum(['red', 'green'], { name: 'Colors' })
+ *
+ * Colors.parse('Red')
+ * // ButterEnumsAssertionError: Expected a key of Colors, but received "Red". Did you mean "red"?
+ * ```
+ */
+export class ButterEnumsAssertionError extends ButterEnumsError {
+  /**
+   * The input that was rejected
+   */
+  readonly input: unknown;
+  /**
+   * The closest valid keys to the input, best match first
+   */
+  readonly suggestions: readonly string[];
+
+  constructor(
+    enumName: string,
+    expected: "key" | "value",
+    input: unknown,
+    suggestions: readonly string[] = []
+  ) {
+    super(
+      expected === "key" ? "UNKNOWN_KEY" : "INVALID_VALUE",
+      enumName,
+      `Expected a ${expected} of ${enumName}, but received ${describeInput(input)}` +
+        (suggestions.length > 0
+          ? `. Did you mean ${suggestions.map((suggestion) => JSON.stringify(suggestion)).join(" or ")}?`
+          : "")
+    );
+    this.name = "ButterEnumsAssertionError";
+    this.input = input;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown when an enum is defined or used in a way its definition doesn't support
+ *
+ * @example
+ * ```typescript
+ * ButterKeyedEnum({ apple: {} }).tuple
+ * // ButterEnumsDefinitionError: ButterKeyedEnum has no tuple. Provide tupleFactory if you want a tuple, and ensure it's not empty
+ * ```
+ */
+export class ButterEnumsDefinitionError extends ButterEnumsError {
+  constructor(
+    code: Exclude<
+      ButterEnumsErrorCode,
+      "UNKNOWN_KEY" | "INVALID_VALUE" | "INVALID_TRANSITION"
+    >,
+    enumName: string,
+    message: string
+  ) {
+    super(code, enumName, message);
+    this.name = "ButterEnumsDefinitionError";
+  }
+}
+
+/**
+ * Thrown when a state enum is asked to make a transition it doesn't declare
+ *
+ * @example
+ * ```typescript
+ * OrderStatus.assertTransition('delivered', 'pending')
+ * // ButterEnumsTransitionError: OrderStatus can't transition from "delivered" to "pending"
+ * ```
+ */
+export class ButterEnumsTransitionError extends ButterEnumsError {
+  /**
+   * The state the transition started from
+   */
+  readonly from: string;
+  /**
+   * The state the transition was going to
+   */
+  readonly to: unknown;
+
+  constructor(enumName: string, from: string, to: unknown, allowed: readonly string[]) {
+    super(
+      "INVALID_TRANSITION",
+      enumName,
+      `${enumName} can't transition from ${describeInput(from)} to ${describeInput(to)}` +
+        (allowed.length > 0
+          ? `, only to ${allowed.map((state) => JSON.stringify(state)).join(", ")}`
+          : `, it is a terminal state`)
+    );
+    this.name = "ButterEnumsTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * The result of safeParse
+ *
+ * @template T The type of the parsed value
+ */
+export type ButterEnumsParseResult<T> =
+  | {
+      success: true;
+      value: T;
+    }
+  | {
+      success: false;
+      error: ButterEnumsAssertionError;
+    };
+
+/**
+ * Renders an arbitrary input for use in an error message
+ */
+export function describeInput(input: unknown): string {
+  if (typeof input === "string") {
+    return JSON.stringify(input);
+  }
+  if (typeof input === "bigint") {
+    return `${input}n`;
+  }
+  if (typeof input === "object" && input !== null) {
+    try {
+      return JSON.stringify(input);
+    } catch {
+      return Object.prototype.toString.call(input);
+    }
+  }
+  return String(input);
+}
@@ -0,0 +1,19 @@
+/**
+ * Extends an enum object with more members.
+ *
+ * Unlike spreading, this copies getters as getters, so tuple dependent getters
+ * that throw without a tupleFactory aren't evaluated.
+ *
+ * @param base The enum object to extend
+ * @param extension The members to add, overriding members of the base with the same name
+ * @returns A new object with the members of both
+ */
+export function extendEnum<TBase extends object, TExtension extends object>(
+  base: TBase,
+  extension: TExtension
+): Omit<TBase, keyof TExtension> & TExtension {
+  return Object.defineProperties(
+    Object.defineProperties({}, Object.getOwnPropertyDescriptors(base)),
+    Object.getOwnPropertyDescriptors(extension)
+  ) as Omit<TBase, keyof TExtension> & TExtension;
+}
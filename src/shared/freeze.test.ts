@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { deepFreeze, freezeEnum } from './freeze';
+
+describe('deepFreeze', () => {
+  it('should freeze nested objects, arrays and functions', () => {
+    const value = { list: [{ a: 1 }], format: () => 'x', [Symbol('s')]: { b: 2 } };
+    deepFreeze(value);
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.list[0])).toBe(true);
+    expect(Object.isFrozen(value.format)).toBe(true);
+    expect(Object.getOwnPropertySymbols(value).every((key) => Object.isFrozen((value as any)[key]))).toBe(true);
+  });
+
+  it('should handle cycles and shared references', () => {
+    const node: { name: string; self?: unknown; children: unknown[] } = { name: 'root', children: [] };
+    const shared = { label: 'shared' };
+    node.self = node;
+    node.children.push(shared, shared, { parent: node });
+    expect(deepFreeze(node)).toBe(node);
+    expect(Object.isFrozen(shared)).toBe(true);
+    expect(Object.isFrozen(node.children[2])).toBe(true);
+  });
+
+  it('should make collections read-only and leave typed arrays alone', () => {
+    const value = { lookup: new Map([['a', { b: 1 }]]), tags: new Set(['x']), bytes: new Uint8Array([1]) };
+    deepFreeze(value);
+    expect(() => value.lookup.set('c', { b: 2 })).toThrow('The Map is read-only');
+    expect(() => value.tags.add('y')).toThrow('The Set is read-only');
+    expect(Object.isFrozen(value.lookup.get('a'))).toBe(true);
+    expect(value.lookup.get('a')).toEqual({ b: 1 });
+    expect(Object.isFrozen(value.bytes)).toBe(false);
+  });
+
+  it('should freeze collections that are shared or already frozen', () => {
+    const shared = new Map([['a', { b: 1 }]]);
+    deepFreeze({ shared });
+    expect(() => deepFreeze({ again: shared })).not.toThrow();
+    expect(() => shared.set('c', { b: 2 })).toThrow('The Map is read-only');
+
+    const frozen = Object.freeze(new Set([{ c: 1 }]));
+    expect(() => deepFreeze({ frozen })).not.toThrow();
+    expect(Object.isFrozen([...frozen][0])).toBe(true);
+  });
+});
+
+describe('freezeEnum', () => {
+  it('should freeze down to the given level when shallow', () => {
+    const value = { a: { meta: { deep: true } } };
+    freezeEnum(value, 'shallow', 1);
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.a)).toBe(true);
+    expect(Object.isFrozen(value.a.meta)).toBe(false);
+  });
+
+  it('should not freeze when none', () => {
+    const value = { a: {} };
+    freezeEnum(value, 'none');
+    expect(Object.isFrozen(value)).toBe(false);
+  });
+
+  it('should only freeze outside of production in dev mode', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    try {
+      process.env.NODE_ENV = 'production';
+      expect(Object.isFrozen(freezeEnum({ a: {} }, 'dev'))).toBe(false);
+      process.env.NODE_ENV = 'development';
+      expect(Object.isFrozen(freezeEnum({ a: {} }, 'dev').a)).toBe(true);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
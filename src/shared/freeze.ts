@@ -0,0 +1,125 @@
+import { isProduction } from "./env";
+
+/**
+ * How much of an enum is frozen at runtime. The types are readonly in every mode.
+ *
+ * * `"deep"` - the enum and everything it references, the default
+ * * `"shallow"` - the enum and its entries, but not the metadata inside them
+ * * `"none"` - nothing, for metadata that must stay mutable or the fastest startup
+ * * `"dev"` - deep unless `process.env.NODE_ENV` is `"production"`, and nothing otherwise
+ */
+export type ButterEnumsFreezeMode = "deep" | "shallow" | "none" | "dev";
+
+/**
+ * Freezes a part of an enum according to the freeze option
+ *
+ * @param value The object to freeze
+ * @param mode The freeze option of the enum. Defaults to `"deep"`
+ * @param levels How many levels below the object a shallow freeze reaches, e.g. 1 for the entries of a keyed enum
+ * @returns The same object
+ */
+export function freezeEnum<T>(
+  value: T,
+  mode: ButterEnumsFreezeMode = "deep",
+  levels = 0
+): T {
+  switch (mode) {
+    case "deep":
+      return deepFreeze(value);
+    case "shallow":
+      return shallowFreeze(value, levels);
+    case "none":
+      return value;
+    case "dev":
+      return isProduction() ? value : deepFreeze(value);
+  }
+}
+
+/**
+ * Freezes an object and every object and function it references.
+ * Objects that are referenced more than once, including cycles, are visited once.
+ * Maps, Sets, WeakMaps and WeakSets keep their methods but throw when they're mutated,
+ * unless they were already frozen, e.g. by another enum. Typed arrays, which can't be frozen, are left as they are.
+ *
+ * @param value The object to freeze
+ * @returns The same object
+ */
+export function deepFreeze<T>(value: T): T {
+  const visited = new WeakSet<object>();
+  const pending: unknown[] = [value];
+  while (pending.length > 0) {
+    const current = pending.pop();
+    if (
+      (typeof current !== "object" && typeof current !== "function") ||
+      current === null ||
+      visited.has(current) ||
+      ArrayBuffer.isView(current)
+    ) {
+      continue;
+    }
+    visited.add(current);
+    if (current instanceof Map || current instanceof Set) {
+      current.forEach((entry: unknown, key: unknown) => {
+        pending.push(key, entry);
+      });
+    }
+    makeReadOnly(current);
+    Object.freeze(current);
+    for (const key of Reflect.ownKeys(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, key);
+      if (descriptor && "value" in descriptor) {
+        pending.push(descriptor.value);
+      }
+    }
+  }
+  return value;
+}
+
+function shallowFreeze<T>(value: T, levels: number): T {
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    !ArrayBuffer.isView(value)
+  ) {
+    Object.freeze(value);
+    if (levels > 0) {
+      for (const child of Object.values(value)) {
+        shallowFreeze(child, levels - 1);
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Replaces the mutating methods of collections, which Object.freeze doesn't prevent.
+ * Frozen collections are skipped, since their methods can't be redefined anymore.
+ */
+function makeReadOnly(collection: object) {
+  const name =
+    collection instanceof Map
+      ? "Map"
+      : collection instanceof Set
+        ? "Set"
+        : collection instanceof WeakMap
+          ? "WeakMap"
+          : collection instanceof WeakSet
+            ? "WeakSet"
+            : undefined;
+  if (name === undefined || !Object.isExtensible(collection)) {
+    return;
+  }
+  const methods =
+    name === "Map" || name === "WeakMap"
+      ? ["set", "delete", "clear"]
+      : ["add", "delete", "clear"];
+  for (const method of methods) {
+    if (method in collection) {
+      Object.defineProperty(collection, method, {
+        value() {
+          throw new TypeError(`The ${name} is read-only`);
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * The structural shape shared by every ButterTupleEnum, for helpers that accept any tuple enum
+ */
+export type AnyButterTupleEnum = {
+  readonly kind: "tuple";
+  readonly tuple: readonly string[];
+};
+
+/**
+ * The structural shape shared by every ButterKeyedEnum, for helpers that accept any keyed enum
+ */
+export type AnyButterKeyedEnum = {
+  readonly kind: "keyed";
+  readonly keyName: string;
+  readonly hasTuple: boolean;
+  readonly enum: Readonly<Record<string, Readonly<Record<string, unknown>>>>;
+  readonly keys: readonly string[];
+  readonly orderedKeys: unknown;
+};
+
+/**
+ * Any enum created by ButterTupleEnum or ButterKeyedEnum
+ */
+export type AnyButterEnum = AnyButterTupleEnum | AnyButterKeyedEnum;
+
+/**
+ * The keys of an enum, as a union
+ */
+export type KeyOfButterEnum<TEnum extends AnyButterEnum> =
+  TEnum extends AnyButterTupleEnum
+    ? TEnum["tuple"][number]
+    : TEnum extends AnyButterKeyedEnum
+      ? keyof TEnum["enum"] & string
+      : never;
+
+/**
+ * The values of a keyed enum, as a union
+ */
+export type ValueOfButterKeyedEnum<TEnum extends AnyButterKeyedEnum> =
+  TEnum["enum"][keyof TEnum["enum"]];
+
+/**
+ * Gets the keys of an enum in their canonical order.
+ *
+ * That is the tuple order for tuple enums and keyed enums with a tupleFactory,
+ * and the insertion order for keyed enums without one.
+ *
+ * @param butterEnum The enum to get the keys of
+ * @returns The ordered keys
+ */
+export function orderedKeysOf(butterEnum: AnyButterEnum): readonly string[] {
+  if (butterEnum.kind === "tuple") {
+    return butterEnum.tuple;
+  }
+  return butterEnum.hasTuple
+    ? (butterEnum.orderedKeys as readonly string[])
+    : butterEnum.keys;
+}
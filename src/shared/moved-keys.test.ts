@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { findMovedKeys } from './moved-keys';
+
+describe('findMovedKeys', () => {
+  it('should only report the keys that moved', () => {
+    expect(findMovedKeys(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'])).toEqual(['d']);
+    expect(findMovedKeys(['a', 'b', 'c'], ['a', 'c', 'b'])).toEqual(['b']);
+  });
+
+  it('should ignore added and removed keys', () => {
+    expect(findMovedKeys(['a', 'b', 'c'], ['x', 'a', 'c'])).toEqual([]);
+    expect(findMovedKeys([], ['a'])).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Finds the keys whose position relative to the other keys changed between two orderings.
+ *
+ * Keys that only exist in one of the orderings are ignored.
+ * The longest run of keys that kept their relative order is considered unmoved,
+ * so moving a single key only reports that key.
+ *
+ * @param previous The previous ordering
+ * @param next The next ordering
+ * @returns The moved keys, in the next order
+ */
+export function findMovedKeys(
+  previous: readonly string[],
+  next: readonly string[]
+): string[] {
+  const previousIndexes = new Map(previous.map((key, index) => [key, index]));
+  const retained = next.filter((key) => previousIndexes.has(key));
+  const indexes = retained.map((key) => previousIndexes.get(key)!);
+
+  // Longest increasing subsequence of the previous indexes, in O(n^2)
+  const lengths = indexes.map(() => 1);
+  const parents = indexes.map(() => -1);
+  indexes.forEach((index, i) => {
+    for (let j = 0; j < i; j++) {
+      if (indexes[j]! < index && lengths[j]! + 1 > lengths[i]!) {
+        lengths[i] = lengths[j]! + 1;
+        parents[i] = j;
+      }
+    }
+  });
+  const unmoved = new Set<string>();
+  let cursor = lengths.indexOf(Math.max(...lengths));
+  while (cursor !== -1) {
+    unmoved.add(retained[cursor]!);
+    cursor = parents[cursor]!;
+  }
+  return retained.filter((key) => !unmoved.has(key));
+}
@@ -0,0 +1,76 @@
+/**
+ * An option for a select input, created by toOptions
+ *
+ * @template TValue The value of the option
+ */
+export type ButterEnumOption<TValue> = {
+  readonly label: string;
+  readonly value: TValue;
+  readonly disabled: boolean;
+};
+
+/**
+ * A group of options for a select input, created by toOptions when grouping
+ *
+ * @template TGroup The value of the grouped property
+ * @template TValue The value of the options
+ */
+export type ButterEnumOptionGroup<TGroup, TValue> = {
+  readonly group: TGroup;
+  readonly options: readonly ButterEnumOption<TValue>[];
+};
+
+/**
+ * How toOptions sorts options: in the order of the enum, by label, or with a comparator
+ *
+ * @template TValue The value of the options
+ */
+export type ButterEnumOptionSort<TValue> =
+  | "tuple"
+  | "label"
+  | ((a: ButterEnumOption<TValue>, b: ButterEnumOption<TValue>) => number);
+
+/**
+ * Freezes and sorts options that are in the order of the enum
+ *
+ * @param options The options, in the order of the enum
+ * @param sort How to sort the options. Defaults to the order of the enum
+ * @returns The frozen, sorted options
+ */
+export function sortOptions<TValue>(
+  options: ButterEnumOption<TValue>[],
+  sort: ButterEnumOptionSort<TValue> = "tuple"
+): readonly ButterEnumOption<TValue>[] {
+  const sorted =
+    sort === "tuple"
+      ? options
+      : [...options].sort(
+          sort === "label" ? (a, b) => a.label.localeCompare(b.label) : sort
+        );
+  return Object.freeze(sorted.map((option) => Object.freeze(option)));
+}
+
+/**
+ * Groups sorted options, keeping the groups in the order of their first option
+ *
+ * @param options The sorted options
+ * @param groupOf Gets the group of an option
+ * @returns The frozen groups
+ */
+export function groupOptions<TGroup, TValue>(
+  options: readonly ButterEnumOption<TValue>[],
+  groupOf: (option: ButterEnumOption<TValue>) => TGroup
+): readonly ButterEnumOptionGroup<TGroup, TValue>[] {
+  const groups = new Map<TGroup, ButterEnumOption<TValue>[]>();
+  for (const option of options) {
+    const group = groupOf(option);
+    const groupOptions = groups.get(group) ?? [];
+    groupOptions.push(option);
+    groups.set(group, groupOptions);
+  }
+  return Object.freeze(
+    [...groups].map(([group, groupOptions]) =>
+      Object.freeze({ group, options: Object.freeze(groupOptions) })
+    )
+  );
+}
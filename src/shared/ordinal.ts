@@ -0,0 +1,248 @@
+/**
+ * Utility type that finds the literal index of a key in a tuple of keys
+ */
+export type IndexOfKey<
+  TKeys extends readonly unknown[],
+  TKey,
+  TCounter extends unknown[] = [],
+> = TKeys extends readonly [infer THead, ...infer TRest]
+  ? THead extends TKey
+    ? TCounter["length"]
+    : IndexOfKey<TRest, TKey, [...TCounter, unknown]>
+  : number;
+
+/**
+ * Utility type that finds the key after a key in a tuple of keys,
+ * wrapping around to the first key, or `undefined` for the last key
+ */
+export type NextKey<
+  TKeys extends readonly unknown[],
+  TKey,
+  TWrap extends boolean,
+  TFirst = TKeys[0],
+> = TKeys extends readonly [infer THead, ...infer TRest]
+  ? THead extends TKey
+    ? TRest extends readonly [infer TNext, ...unknown[]]
+      ? TNext
+      : TWrap extends true
+        ? TFirst
+        : undefined
+    : NextKey<TRest, TKey, TWrap, TFirst>
+  : TKeys[number] | undefined;
+
+/**
+ * Utility type that reverses a tuple
+ */
+export type ReverseKeys<
+  TKeys extends readonly unknown[],
+  TResult extends unknown[] = [],
+> = TKeys extends readonly [infer THead, ...infer TRest]
+  ? ReverseKeys<TRest, [THead, ...TResult]>
+  : TKeys extends readonly []
+    ? TResult
+    : TKeys[number][];
+
+/**
+ * Utility type that slices a tuple of keys from one key to another, inclusive
+ */
+export type KeyRange<
+  TKeys extends readonly unknown[],
+  TFrom,
+  TTo,
+  TResult extends unknown[] = [],
+  TStarted extends boolean = false,
+> = TKeys extends readonly [infer THead, ...infer TRest]
+  ? TStarted extends true
+    ? THead extends TTo
+      ? [...TResult, THead]
+      : KeyRange<TRest, TFrom, TTo, [...TResult, THead], true>
+    : THead extends TFrom
+      ? THead extends TTo
+        ? [THead]
+        : KeyRange<TRest, TFrom, TTo, [THead], true>
+      : KeyRange<TRest, TFrom, TTo, [], false>
+  : TKeys extends readonly []
+    ? []
+    : TKeys[number][];
+
+/**
+ * Creates the ordinal navigation methods for an ordered tuple of keys
+ *
+ * @param keys The keys in order
+ * @param assertKey Narrows a key, throwing if it's not in the enum
+ * @param assertOrdered Throws if the enum has no order, e.g. a keyed enum without a tupleFactory
+ */
+export function makeOrdinalMethods<const TKeys extends readonly unknown[]>(
+  keys: TKeys,
+  assertKey: (key: unknown) => TKeys[number],
+  assertOrdered: () => void = () => {}
+) {
+  const indexes = new Map<unknown, number>(keys.map((key, index) => [key, index]));
+
+  function indexOf<TKey extends TKeys[number]>(
+    key: TKey
+  ): IndexOfKey<TKeys, TKey> {
+    assertOrdered();
+    return indexes.get(assertKey(key)) as IndexOfKey<TKeys, TKey>;
+  }
+
+  function step(key: TKeys[number], offset: 1 | -1, wrap: boolean | undefined) {
+    const index = indexOf(key) + offset;
+    if (wrap) {
+      return keys[(index + keys.length) % keys.length];
+    }
+    return keys[index];
+  }
+
+  /**
+   * Gets the key after a key
+   *
+   * @example
+   * ```typescript
+   * Levels.next('debug') // 'info'
+   * Levels.next('error') // undefined
+   * Levels.next('error', { wrap: true }) // 'debug'
+   * ```
+   *
+   * @param key The key to start from
+   * @param options Configuration options
+   * @param options.wrap Whether to wrap around to the first key after the last key
+   * @returns The next key, or undefined after the last key unless wrapping
+   */
+  function next<TKey extends TKeys[number]>(
+    key: TKey,
+    options?: { wrap?: false }
+  ): NextKey<TKeys, TKey, false>;
+  function next<TKey extends TKeys[number]>(
+    key: TKey,
+    options: { wrap: true }
+  ): NextKey<TKeys, TKey, true>;
+  function next(key: TKeys[number], options?: { wrap?: boolean }) {
+    return step(key, 1, options?.wrap);
+  }
+
+  /**
+   * Gets the key before a key
+   *
+   * @example
+   * ```typescript
+   * Levels.prev('info') // 'debug'
+   * Levels.prev('debug') // undefined
+   * Levels.prev('debug', { wrap: true }) // 'error'
+   * ```
+   *
+   * @param key The key to start from
+   * @param options Configuration options
+   * @param options.wrap Whether to wrap around to the last key before the first key
+   * @returns The previous key, or undefined before the first key unless wrapping
+   */
+  function prev<TKey extends TKeys[number]>(
+    key: TKey,
+    options?: { wrap?: false }
+  ): NextKey<ReverseKeys<TKeys>, TKey, false>;
+  function prev<TKey extends TKeys[number]>(
+    key: TKey,
+    options: { wrap: true }
+  ): NextKey<ReverseKeys<TKeys>, TKey, true>;
+  function prev(key: TKeys[number], options?: { wrap?: boolean }) {
+    return step(key, -1, options?.wrap);
+  }
+
+  function compare(a: TKeys[number], b: TKeys[number]): -1 | 0 | 1 {
+    return Math.sign(indexOf(a) - indexOf(b)) as -1 | 0 | 1;
+  }
+
+  return {
+    /**
+     * Gets the index of a key
+     *
+     * @example
+     * ```typescript
+     * Levels.indexOf('info') // 1
+     * ```
+     *
+     * @param key The key to get the index of
+     * @returns {IndexOfKey<TKeys, TKey>} The literal index of the key
+     * @throws {ButterEnumsAssertionError} If the input is not a key of the enum
+     */
+    indexOf,
+    /**
+     * Compares two keys by their order, for use with `Array.prototype.sort`
+     *
+     * @param a The first key
+     * @param b The second key
+     * @returns {-1 | 0 | 1} -1 if a comes before b, 1 if a comes after b, and 0 if they are the same key
+     * @throws {ButterEnumsAssertionError} If either input is not a key of the enum
+     */
+    compare,
+    /**
+     * Checks if a key comes before another key
+     *
+     * @param a The key to check
+     * @param b The key to compare against
+     * @returns {boolean} True if a comes before b
+     */
+    isBefore(a: TKeys[number], b: TKeys[number]): boolean {
+      return compare(a, b) < 0;
+    },
+    /**
+     * Checks if a key comes after another key
+     *
+     * @param a The key to check
+     * @param b The key to compare against
+     * @returns {boolean} True if a comes after b
+     */
+    isAfter(a: TKeys[number], b: TKeys[number]): boolean {
+      return compare(a, b) > 0;
+    },
+    next,
+    prev,
+    /**
+     * Gets the keys from one key to another, inclusive
+     *
+     * @example
+     * ```typescript
+     * Levels.range('info', 'error') // ['info', 'warn', 'error']
+     * Levels.range('error', 'info') // []
+     * ```
+     *
+     * @param from The first key of the range
+     * @param to The last key of the range
+     * @returns {KeyRange<TKeys, TFrom, TTo>} The typed slice of the keys, empty if `to` comes before `from`
+     */
+    range<TFrom extends TKeys[number], TTo extends TKeys[number]>(
+      from: TFrom,
+      to: TTo
+    ): Readonly<KeyRange<TKeys, TFrom, TTo>> {
+      return Object.freeze(
+        keys.slice(indexOf(from), indexOf(to) + 1)
+      ) as unknown as KeyRange<TKeys, TFrom, TTo>;
+    },
+    /**
+     * Clamps a key between two keys, inclusive
+     *
+     * @example
+     * ```typescript
+     * Levels.clamp('debug', 'info', 'warn') // 'info'
+     * ```
+     *
+     * @param key The key to clamp
+     * @param min The lowest key to return
+     * @param max The highest key to return
+     * @returns {KeyRange<TKeys, TMin, TMax>[number]} The key, or the closest bound if it's outside of them
+     */
+    clamp<TMin extends TKeys[number], TMax extends TKeys[number]>(
+      key: TKeys[number],
+      min: TMin,
+      max: TMax
+    ): KeyRange<TKeys, TMin, TMax>[number] {
+      if (compare(key, min) < 0) {
+        return min as KeyRange<TKeys, TMin, TMax>[number];
+      }
+      if (compare(key, max) > 0) {
+        return max as KeyRange<TKeys, TMin, TMax>[number];
+      }
+      return key as KeyRange<TKeys, TMin, TMax>[number];
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * A key of an enum paired with its value, as returned by entries
+ *
+ * @template TEnum The enum object
+ */
+export type ButterEnumEntry<TEnum> = {
+  [K in keyof TEnum]: readonly [K, TEnum[K]];
+}[keyof TEnum];
+
+/**
+ * A callback of the query methods, called with the value, the key and the enum object
+ *
+ * @template TEnum The enum object
+ * @template TResult What the callback returns
+ */
+export type ButterEnumCallback<TEnum, TResult> = (
+  value: TEnum[keyof TEnum],
+  key: keyof TEnum,
+  enumObject: TEnum
+) => TResult;
+
+/**
+ * Creates the iteration and query methods of an enum
+ *
+ * @param enumObject The enum object, passed to the callbacks
+ * @param orderedKeys The keys in the order of the enum
+ * @param valueOf Gets the value of a key
+ */
+export function makeQueryMethods<TEnum extends object>(
+  enumObject: TEnum,
+  orderedKeys: readonly (keyof TEnum)[],
+  valueOf: (key: keyof TEnum) => TEnum[keyof TEnum]
+) {
+  const $entries = Object.freeze(
+    orderedKeys.map((key) => Object.freeze([key, valueOf(key)] as const))
+  ) as readonly ButterEnumEntry<TEnum>[];
+
+  /**
+   * Keeps the values that match a predicate, narrowing them when it's a type predicate
+   *
+   * @example
+   * ```typescript
+   * Fruits.filter((fruit) => fruit.sweetness > 5) // [{ name: 'Apple', ... }, { name: 'Banana', ... }]
+   * ```
+   *
+   * @param predicate A function that tests each value, with its key and the enum object
+   * @returns The matching values, in the order of the enum
+   */
+  function filter<TMatch extends TEnum[keyof TEnum]>(
+    predicate: (
+      value: TEnum[keyof TEnum],
+      key: keyof TEnum,
+      enumObject: TEnum
+    ) => value is TMatch
+  ): TMatch[];
+  function filter(
+    predicate: ButterEnumCallback<TEnum, unknown>
+  ): TEnum[keyof TEnum][];
+  function filter(
+    predicate: ButterEnumCallback<TEnum, unknown>
+  ): TEnum[keyof TEnum][] {
+    return $entries
+      .filter(([key, value]) => predicate(value, key, enumObject))
+      .map(([, value]) => value);
+  }
+
+  return {
+    /**
+     * Iterates over the values, in tuple order when there is one, and in insertion order otherwise
+     *
+     * @example
+     * ```typescript
+     * for (const fruit of Fruits) {
+     *   console.log(fruit.name)
+     * }
+     * ```
+     */
+    *[Symbol.iterator](): IterableIterator<TEnum[keyof TEnum]> {
+      for (const [, value] of $entries) {
+        yield value;
+      }
+    },
+    /**
+     * The keys paired with their values, in the order of the enum
+     *
+     * @example
+     * ```typescript
+     * Fruits.entries() // [['apple', { name: 'Apple', ... }], ...]
+     * ```
+     *
+     * @returns {readonly ButterEnumEntry<TEnum>[]} The frozen entries
+     */
+    entries(): readonly ButterEnumEntry<TEnum>[] {
+      return $entries;
+    },
+    /**
+     * Calls a function for every value, in the order of the enum
+     *
+     * @param callback A function called with each value, its key and the enum object
+     */
+    forEach(callback: ButterEnumCallback<TEnum, void>): void {
+      for (const [key, value] of $entries) {
+        callback(value, key, enumObject);
+      }
+    },
+    /**
+     * Maps every value, in the order of the enum
+     *
+     * @example
+     * ```typescript
+     * Fruits.map((fruit, key) => `${key}: ${fruit.name}`) // ['apple: Apple', ...]
+     * ```
+     *
+     * @param callback A function called with each value, its key and the enum object
+     * @returns {TResult[]} The results, in the order of the enum
+     */
+    map<TResult>(callback: ButterEnumCallback<TEnum, TResult>): TResult[] {
+      return $entries.map(([key, value]) => callback(value, key, enumObject));
+    },
+    filter,
+    /**
+     * Checks if any value matches a predicate
+     *
+     * @param predicate A function that tests each value, with its key and the enum object
+     * @returns {boolean} True if at least one value matches
+     */
+    some(predicate: ButterEnumCallback<TEnum, unknown>): boolean {
+      return $entries.some(([key, value]) => predicate(value, key, enumObject));
+    },
+    /**
+     * Checks if every value matches a predicate
+     *
+     * @param predicate A function that tests each value, with its key and the enum object
+     * @returns {boolean} True if all values match
+     */
+    every(predicate: ButterEnumCallback<TEnum, unknown>): boolean {
+      return $entries.every(([key, value]) => predicate(value, key, enumObject));
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { ButterEnumsParseResult } from "./errors";
+
+/**
+ * The Standard Schema v1 interface, as published at https://standardschema.dev
+ *
+ * It is copied here rather than depended upon, as recommended by the spec, so any compliant
+ * validator can consume a butter enum without an adapter package.
+ *
+ * @template Input The type the schema accepts
+ * @template Output The type the schema produces
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * Wraps a safeParse function in a Standard Schema
+ *
+ * @param safeParse The safeParse function of an enum
+ * @returns A Standard Schema that validates with the safeParse function
+ */
+export function makeStandardSchema<Input, Output>(
+  safeParse: (value: unknown) => ButterEnumsParseResult<Output>
+): StandardSchemaV1<Input, Output> {
+  return Object.freeze({
+    "~standard": Object.freeze({
+      version: 1,
+      vendor: "butter-enums",
+      validate(value: unknown): StandardSchemaV1.Result<Output> {
+        const result = safeParse(value);
+        if (result.success) {
+          return { value: result.value };
+        }
+        return {
+          issues: [
+            {
+              message: result.error.message,
+              path: [],
+            },
+          ],
+        };
+      },
+    }),
+  });
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { levenshteinDistance, suggestKeys } from './suggest';
+
+describe('suggestKeys', () => {
+  const keys = ['pending', 'paid', 'cancelled', 'refunded'];
+
+  it('should suggest case-insensitive matches first', () => {
+    expect(suggestKeys('PAID', keys)).toEqual(['paid']);
+  });
+
+  it('should suggest keys within a small edit distance', () => {
+    expect(suggestKeys('canceled', keys)).toEqual(['cancelled']);
+    expect(suggestKeys('pendng', keys)).toEqual(['pending']);
+  });
+
+  it('should not suggest anything for distant or non-string input', () => {
+    expect(suggestKeys('shipped', keys)).toEqual([]);
+    expect(suggestKeys('', keys)).toEqual([]);
+    expect(suggestKeys(42, keys)).toEqual([]);
+  });
+
+  it('should calculate the edit distance', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('abc', 'abc')).toBe(0);
+  });
+});
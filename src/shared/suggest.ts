@@ -0,0 +1,52 @@
+/**
+ * Finds the keys closest to an unknown input, for "did you mean" error messages.
+ *
+ * Case-insensitive matches come first, followed by keys within a small edit distance of the input.
+ *
+ * @param input The unknown input
+ * @param keys The valid keys
+ * @param limit The maximum number of suggestions
+ * @returns The closest keys, best match first
+ */
+export function suggestKeys(
+  input: unknown,
+  keys: readonly string[],
+  limit = 3
+): string[] {
+  if (typeof input !== "string" || input.length === 0) {
+    return [];
+  }
+  const lowerInput = input.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(input.length / 3));
+  return keys
+    .map((key) => ({
+      key,
+      distance:
+        key.toLowerCase() === lowerInput
+          ? 0
+          : levenshteinDistance(lowerInput, key.toLowerCase()) + 1,
+    }))
+    .filter(({ distance }) => distance <= maxDistance + 1)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ key }) => key);
+}
+
+/**
+ * The minimum number of single character insertions, deletions or substitutions to turn `a` into `b`
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
@@ -0,0 +1,129 @@
+import { isProduction } from "./env";
+import { ButterEnumsDefinitionError, describeInput } from "./errors";
+
+/**
+ * When an enum checks its definition at runtime, on top of the compile time checks:
+ *
+ * * `"always"` - every time the enum is created, the default
+ * * `"dev"` - unless `process.env.NODE_ENV` is `"production"`
+ * * `"never"` - only the compile time checks apply
+ */
+export type ButterEnumsValidateMode = "always" | "dev" | "never";
+
+/**
+ * Checks if a definition should be validated at runtime
+ *
+ * @param mode The validate option of the enum. Defaults to `"always"`
+ * @returns {boolean} True if the definition should be validated
+ */
+export function shouldValidate(mode: ButterEnumsValidateMode = "always"): boolean {
+  switch (mode) {
+    case "always":
+      return true;
+    case "never":
+      return false;
+    case "dev":
+      return !isProduction();
+  }
+}
+
+/**
+ * Throws if a tuple of keys has a key that is not a non-empty string, or a key more than once
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param tuple The tuple of keys
+ * @throws {ButterEnumsDefinitionError} If a key is invalid or duplicated
+ */
+export function validateTupleKeys(enumName: string, tuple: readonly unknown[]) {
+  const seen = new Set<unknown>();
+  tuple.forEach((key, index) => {
+    if (typeof key !== "string" || key === "") {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_KEY",
+        enumName,
+        `${enumName} has ${describeInput(key)} at index ${index}, but keys must be non-empty strings`
+      );
+    }
+    if (seen.has(key)) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_KEY",
+        enumName,
+        `${enumName} has ${describeInput(key)} more than once`
+      );
+    }
+    seen.add(key);
+  });
+}
+
+/**
+ * Throws if an inner object of a keyed enum definition already has the keyName property
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param enumObject The definition of the keyed enum
+ * @param keyName The name of the property the keys are hoisted into
+ * @throws {ButterEnumsDefinitionError} If an inner object has the keyName property
+ */
+export function validateKeyName(
+  enumName: string,
+  enumObject: object,
+  keyName: string
+) {
+  for (const [key, value] of Object.entries(enumObject)) {
+    if (
+      typeof value === "object" &&
+      value !== null &&
+      Object.prototype.hasOwnProperty.call(value, keyName)
+    ) {
+      throw new ButterEnumsDefinitionError(
+        "KEYNAME_CONFLICT",
+        enumName,
+        `${enumName} can't hoist its keys into ${describeInput(keyName)}, because ${describeInput(key)} already has a ${describeInput(keyName)} property. Pass another keyName`
+      );
+    }
+  }
+}
+
+/**
+ * Throws if the tuple returned by the tupleFactory of a keyed or value enum doesn't have every value of the enum exactly once
+ *
+ * @param enumName The name of the enum, used in error messages
+ * @param enumObject The enum object the tupleFactory was given
+ * @param tuple The tuple the tupleFactory returned
+ * @throws {ButterEnumsDefinitionError} If the tuple omits, duplicates or invents a value
+ */
+export function validateTupleValues(
+  enumName: string,
+  enumObject: { readonly [key: string]: unknown },
+  tuple: readonly unknown[]
+) {
+  const keysByValue = new Map(
+    Object.entries(enumObject).map(([key, value]) => [value, key])
+  );
+  const seen = new Set<string>();
+  tuple.forEach((value, index) => {
+    const key = keysByValue.get(value);
+    if (key === undefined) {
+      throw new ButterEnumsDefinitionError(
+        "INVALID_TUPLE",
+        enumName,
+        `The tupleFactory of ${enumName} returns ${describeInput(value)} at index ${index}, which is not a value of the enum object it was given`
+      );
+    }
+    if (seen.has(key)) {
+      throw new ButterEnumsDefinitionError(
+        "DUPLICATE_KEY",
+        enumName,
+        `The tupleFactory of ${enumName} returns ${describeInput(key)} more than once`
+      );
+    }
+    seen.add(key);
+  });
+  const missing = [...keysByValue.values()].filter((key) => !seen.has(key));
+  if (missing.length > 0) {
+    throw new ButterEnumsDefinitionError(
+      "MISSING_KEY",
+      enumName,
+      `The tupleFactory of ${enumName} is missing ${missing.map(describeInput).join(", ")}`
+    );
+  }
+}
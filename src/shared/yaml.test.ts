@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from './yaml';
+
+describe('parseYaml', () => {
+  it('should parse a sequence of mappings', () => {
+    expect(
+      parseYaml(`
+# Plan tiers
+- key: free
+  label: Free # the default plan
+  price: 0
+- key: pro
+  label: "Pro #1"
+  price: 9.5
+  public: true
+  note: 'It''s popular'
+  retired: ~
+`)
+    ).toEqual([
+      { key: 'free', label: 'Free', price: 0 },
+      {
+        key: 'pro',
+        label: 'Pro #1',
+        price: 9.5,
+        public: true,
+        note: "It's popular",
+        retired: null,
+      },
+    ]);
+  });
+
+  it('should parse nested mappings and sequences', () => {
+    expect(
+      parseYaml(`
+free:
+  label: Free
+  features:
+  - support
+  - api
+pro:
+  features: []
+`)
+    ).toEqual({
+      free: { label: 'Free', features: ['support', 'api'] },
+      pro: { features: [] },
+    });
+  });
+
+  it('should read __proto__ as a key', () => {
+    const mapping = parseYaml('__proto__:\n  polluted: true') as Record<string, unknown>;
+    expect(Object.getPrototypeOf(mapping)).toBe(Object.prototype);
+    expect(Object.keys(mapping)).toEqual(['__proto__']);
+    expect(mapping['__proto__']).toEqual({ polluted: true });
+  });
+
+  it('should reject YAML that is not supported', () => {
+    expect(() => parseYaml('key: |\n  text')).toThrow(
+      'Line 1 of the YAML: | uses YAML syntax that is not supported'
+    );
+    expect(() => parseYaml('a: 1\na: 2')).toThrow(
+      'Line 2 of the YAML: the key "a" appears more than once'
+    );
+    expect(() => parseYaml('a: 1\n    b: 2')).toThrow('Line 2 of the YAML: unexpected indentation');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * A line of YAML that isn't blank or a comment
+ */
+type YamlLine = {
+  indent: number;
+  content: string;
+  number: number;
+};
+
+/**
+ * Parses the subset of YAML that reference data is written in:
+ * block mappings and block sequences, nested by indentation, with plain, quoted, number, boolean and null scalars.
+ * Anchors, tags, multi-line strings and flow collections other than `[]` and `{}` are not supported.
+ *
+ * @param text The YAML text
+ * @returns The parsed document, or null if it's empty
+ * @throws {SyntaxError} If the text uses YAML that is not supported, or is malformed
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const content = stripComment(line).trimEnd();
+    if (content.trim() === "" || content.trim() === "---") {
+      return;
+    }
+    if (line.slice(0, line.length - line.trimStart().length).includes("\t")) {
+      throw yamlError(index + 1, "tabs can't be used for indentation");
+    }
+    lines.push({
+      indent: content.length - content.trimStart().length,
+      content: content.trim(),
+      number: index + 1,
+    });
+  });
+  if (lines.length === 0) {
+    return null;
+  }
+
+  let position = 0;
+
+  function parseBlock(indent: number): unknown {
+    const first = lines[position]!;
+    return first.content === "-" || first.content.startsWith("- ")
+      ? parseSequence(indent)
+      : parseMapping(indent);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (position < lines.length && lines[position]!.indent === indent) {
+      const line = lines[position]!;
+      if (line.content !== "-" && !line.content.startsWith("- ")) {
+        throw yamlError(line.number, "expected a sequence item");
+      }
+      const rest = line.content.slice(1).trimStart();
+      if (rest === "") {
+        position++;
+        items.push(parseNested(indent));
+      } else if (findMappingColon(rest) !== -1) {
+        // `- key: value` starts a mapping indented past the dash
+        lines[position] = {
+          ...line,
+          indent: indent + line.content.length - rest.length,
+          content: rest,
+        };
+        items.push(parseMapping(lines[position]!.indent));
+      } else {
+        position++;
+        items.push(parseScalar(rest, line.number));
+      }
+    }
+    return items;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    while (position < lines.length && lines[position]!.indent === indent) {
+      const line = lines[position]!;
+      const colon = findMappingColon(line.content);
+      if (colon === -1) {
+        throw yamlError(line.number, "expected a key followed by a colon");
+      }
+      const key = String(parseScalar(line.content.slice(0, colon).trim(), line.number));
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw yamlError(line.number, `the key ${JSON.stringify(key)} appears more than once`);
+      }
+      const rest = line.content.slice(colon + 1).trim();
+      position++;
+      // Defined rather than assigned, so a __proto__ key is a key like JSON.parse reads it
+      Object.defineProperty(mapping, key, {
+        value: rest === "" ? parseNested(indent) : parseScalar(rest, line.number),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return mapping;
+  }
+
+  /**
+   * Parses the block under a key or dash without a value, or null if there is none.
+   * A sequence may be indented at the same level as its key.
+   */
+  function parseNested(parentIndent: number): unknown {
+    const next = lines[position];
+    if (next === undefined) {
+      return null;
+    }
+    if (next.indent > parentIndent) {
+      return parseBlock(next.indent);
+    }
+    if (
+      next.indent === parentIndent &&
+      (next.content === "-" || next.content.startsWith("- ")) &&
+      lines[position - 1]!.content.endsWith(":")
+    ) {
+      return parseSequence(next.indent);
+    }
+    return null;
+  }
+
+  const document = parseBlock(lines[0]!.indent);
+  const extra = lines[position];
+  if (extra !== undefined) {
+    throw yamlError(extra.number, "unexpected indentation");
+  }
+  return document;
+}
+
+/**
+ * Parses a scalar, which may be quoted
+ */
+function parseScalar(value: string, lineNumber: number): unknown {
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw yamlError(lineNumber, `${value} is not a valid double quoted string`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (value.length < 2 || !value.endsWith("'")) {
+      throw yamlError(lineNumber, `${value} is not a valid single quoted string`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === "[]") {
+    return [];
+  }
+  if (value === "{}") {
+    return {};
+  }
+  if (/^[[{|>&*!]/.test(value)) {
+    throw yamlError(lineNumber, `${value} uses YAML syntax that is not supported`);
+  }
+  if (/^(null|Null|NULL|~)$/.test(value)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(value)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(value)) {
+    return false;
+  }
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Finds the colon that separates a key from its value, skipping quoted keys
+ */
+function findMappingColon(content: string): number {
+  let quote: string | undefined;
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if ((char === '"' || char === "'") && index === 0) {
+      quote = char;
+    } else if (
+      char === ":" &&
+      (index === content.length - 1 || content[index + 1] === " ")
+    ) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Removes a `#` comment from a line, unless it's inside quotes
+ */
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(line[index - 1]!))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+function yamlError(lineNumber: number, message: string): SyntaxError {
+  return new SyntaxError(`Line ${lineNumber} of the YAML: ${message}`);
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { ButterKeyedEnum } from "./butterKeyedEnum";
+import { ButterTupleEnum } from "./butterTupleEnum";
+import { diffSqlEnum, toSqlEnumDDL } from "./sql";
+
+describe("sql", () => {
+  const Status = ButterTupleEnum(["pending", "paid", "cancelled"]);
+
+  it("should generate a postgres CREATE TYPE", () => {
+    expect(toSqlEnumDDL("order_status", Status, { dialect: "postgres" })).toBe(
+      `CREATE TYPE "order_status" AS ENUM ('pending', 'paid', 'cancelled');`
+    );
+    expect(
+      toSqlEnumDDL("billing.status", ["it's"], { dialect: "postgres" })
+    ).toBe(`CREATE TYPE "billing"."status" AS ENUM ('it''s');`);
+  });
+
+  it("should generate a mysql ENUM column definition", () => {
+    expect(toSqlEnumDDL("status", Status, { dialect: "mysql" })).toBe(
+      "`status` ENUM('pending', 'paid', 'cancelled')"
+    );
+  });
+
+  it("should generate a sqlite CHECK constraint", () => {
+    expect(toSqlEnumDDL("status", Status, { dialect: "sqlite" })).toBe(
+      `"status" TEXT CHECK ("status" IN ('pending', 'paid', 'cancelled'))`
+    );
+  });
+
+  it("should follow the tuple order of keyed enums", () => {
+    const Plans = ButterKeyedEnum(
+      { pro: { price: 10 }, free: { price: 0 } },
+      { tupleFactory: (plans) => [plans.free, plans.pro] }
+    );
+    expect(toSqlEnumDDL("plan", Plans, { dialect: "postgres" })).toBe(
+      `CREATE TYPE "plan" AS ENUM ('free', 'pro');`
+    );
+  });
+
+  it("should add values in tuple order with BEFORE and AFTER", () => {
+    const next = ButterTupleEnum([
+      "draft",
+      "pending",
+      "paid",
+      "refunded",
+      "cancelled",
+      "archived",
+    ]);
+    expect(diffSqlEnum(Status, next, { name: "order_status" })).toEqual({
+      changes: [
+        { type: "added", value: "draft" },
+        { type: "added", value: "refunded" },
+        { type: "added", value: "archived" },
+      ],
+      statements: [
+        `ALTER TYPE "order_status" ADD VALUE 'draft' BEFORE 'pending';`,
+        `ALTER TYPE "order_status" ADD VALUE 'refunded' AFTER 'paid';`,
+        `ALTER TYPE "order_status" ADD VALUE 'archived' AFTER 'cancelled';`,
+      ],
+      requiresManualMigration: false,
+      reasons: [],
+    });
+    expect(
+      diffSqlEnum([], ["a", "b"], { name: "letters" }).statements
+    ).toEqual([
+      `ALTER TYPE "letters" ADD VALUE 'a';`,
+      `ALTER TYPE "letters" ADD VALUE 'b' AFTER 'a';`,
+    ]);
+  });
+
+  it("should flag removed, renamed and reordered values as manual", () => {
+    const renamed = diffSqlEnum(
+      Status,
+      ButterTupleEnum(["pending", "paid", "canceled"]),
+      { name: "order_status" }
+    );
+    expect(renamed.requiresManualMigration).toBe(true);
+    expect(renamed.statements).toEqual([]);
+    expect(renamed.changes).toEqual([
+      { type: "added", value: "canceled" },
+      { type: "removed", value: "cancelled" },
+    ]);
+    expect(renamed.reasons).toEqual([
+      "Removed or renamed values must be migrated by hand: 'cancelled'",
+    ]);
+
+    const reordered = diffSqlEnum(
+      Status,
+      ButterTupleEnum(["cancelled", "pending", "paid"]),
+      { name: "order_status" }
+    );
+    expect(reordered.changes).toEqual([
+      { type: "reordered", value: "cancelled" },
+    ]);
+    expect(reordered.requiresManualMigration).toBe(true);
+  });
+
+  it("should redefine the column for mysql", () => {
+    const result = diffSqlEnum(
+      Status,
+      ButterTupleEnum(["cancelled", "pending", "paid", "refunded"]),
+      { name: "status", dialect: "mysql", table: "orders" }
+    );
+    expect(result.requiresManualMigration).toBe(false);
+    expect(result.statements).toEqual([
+      "ALTER TABLE `orders` MODIFY COLUMN `status` ENUM('cancelled', 'pending', 'paid', 'refunded');",
+    ]);
+  });
+
+  it("should require a table rebuild for sqlite", () => {
+    const result = diffSqlEnum(Status, [...Status.tuple, "refunded"], {
+      name: "status",
+      dialect: "sqlite",
+    });
+    expect(result.requiresManualMigration).toBe(true);
+    expect(result.reasons).toEqual([
+      "SQLite can't alter CHECK constraints, the table must be rebuilt",
+    ]);
+    expect(
+      diffSqlEnum(Status, Status, { name: "status", dialect: "sqlite" })
+    ).toEqual({
+      changes: [],
+      statements: [],
+      requiresManualMigration: false,
+      reasons: [],
+    });
+  });
+
+  it("should not rebuild sqlite tables when values are only reordered", () => {
+    expect(
+      diffSqlEnum(Status, ["paid", "pending", "cancelled"], {
+        name: "status",
+        dialect: "sqlite",
+      })
+    ).toEqual({
+      changes: [{ type: "reordered", value: "pending" }],
+      statements: [],
+      requiresManualMigration: false,
+      reasons: [],
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { AnyButterEnum, orderedKeysOf } from "./shared/introspect";
+import { findMovedKeys } from "./shared/moved-keys";
+
+/**
+ * The SQL dialects supported by the DDL generator
+ */
+export type SqlDialect = "postgres" | "mysql" | "sqlite";
+
+/**
+ * An enum, or the plain list of its keys, e.g. from an older snapshot
+ */
+export type SqlEnumSource = AnyButterEnum | readonly string[];
+
+/**
+ * A single difference between two versions of an enum
+ */
+export type SqlEnumChange =
+  | {
+      type: "added";
+      value: string;
+    }
+  | {
+      type: "removed";
+      value: string;
+    }
+  | {
+      type: "reordered";
+      value: string;
+    };
+
+/**
+ * The migration between two versions of an enum
+ */
+export type SqlEnumDiff = {
+  /**
+   * Every difference between the two versions
+   */
+  changes: SqlEnumChange[];
+  /**
+   * The statements that migrate the database, empty when `requiresManualMigration` is true
+   */
+  statements: string[];
+  /**
+   * True when the changes can't be migrated in place, e.g. because a value was removed or renamed
+   */
+  requiresManualMigration: boolean;
+  /**
+   * Why the changes need a manual migration
+   */
+  reasons: string[];
+};
+
+/**
+ * Generates the DDL for an enum column type.
+ *
+ * * `postgres` - A `CREATE TYPE ... AS ENUM` statement
+ * * `mysql` - An `ENUM(...)` column definition
+ * * `sqlite` - A `TEXT` column definition with a `CHECK` constraint
+ *
+ * Values follow the tuple order when there is one, and insertion order otherwise.
+ *
+ * @example
+ * ```typescript
+ * const Status = ButterTupleEnum(['pending', 'paid'])
+ *
+ * toSqlEnumDDL('order_status', Status, { dialect: 'postgres' })
+ * // CREATE TYPE "order_status" AS ENUM ('pending', 'paid');
+ * toSqlEnumDDL('status', Status, { dialect: 'mysql' })
+ * // `status` ENUM('pending', 'paid')
+ * toSqlEnumDDL('status', Status, { dialect: 'sqlite' })
+ * // "status" TEXT CHECK ("status" IN ('pending', 'paid'))
+ * ```
+ *
+ * @param name The type name for postgres, or the column name for mysql and sqlite
+ * @param butterEnum The enum to generate the DDL for
+ * @param options Configuration options
+ * @param options.dialect The SQL dialect
+ * @returns The DDL
+ */
+export function toSqlEnumDDL(
+  name: string,
+  butterEnum: SqlEnumSource,
+  options: { dialect: SqlDialect }
+): string {
+  const values = keysOf(butterEnum).map(quoteLiteral).join(", ");
+  switch (options.dialect) {
+    case "postgres":
+      return `CREATE TYPE ${quoteIdentifier(name, '"')} AS ENUM (${values});`;
+    case "mysql":
+      return `${quoteIdentifier(name, "`")} ENUM(${values})`;
+    case "sqlite":
+      return `${quoteIdentifier(name, '"')} TEXT CHECK (${quoteIdentifier(name, '"')} IN (${values}))`;
+  }
+}
+
+/**
+ * Diffs two versions of an enum and generates the statements that migrate the database.
+ *
+ * * `postgres` - `ALTER TYPE ... ADD VALUE` statements, positioned with `BEFORE`/`AFTER` to respect the tuple order.
+ *   Postgres can't remove or reorder enum values in place, so those need a manual migration.
+ *   Note that before Postgres 12, `ADD VALUE` can't run inside a transaction block.
+ * * `mysql` - An `ALTER TABLE ... MODIFY COLUMN` statement redefining the `ENUM`.
+ *   Removing a value would invalidate rows that use it, so that needs a manual migration.
+ * * `sqlite` - CHECK constraints can't be altered, so adding or removing values needs a manual migration (a table rebuild).
+ *   The constraint doesn't depend on the order of the values, so reordering them needs no migration.
+ *
+ * A renamed value shows up as a removed value and an added value.
+ *
+ * @example
+ * ```typescript
+ * diffSqlEnum(['pending', 'paid'], ButterTupleEnum(['pending', 'paid', 'refunded']), { name: 'order_status' })
+ * // {
+ * //   changes: [{ type: 'added', value: 'refunded' }],
+ * //   statements: [`ALTER TYPE "order_status" ADD VALUE 'refunded' AFTER 'paid';`],
+ * //   requiresManualMigration: false,
+ * //   reasons: [],
+ * // }
+ * ```
+ *
+ * @param previous The enum, or its keys, as it is in the database
+ * @param next The enum as it should be
+ * @param options Configuration options
+ * @param options.name The type name for postgres, or the column name for mysql
+ * @param options.dialect The SQL dialect. Defaults to `"postgres"`
+ * @param options.table The table that holds the column, required for mysql
+ * @returns The changes and the migration statements
+ */
+export function diffSqlEnum(
+  previous: SqlEnumSource,
+  next: SqlEnumSource,
+  options:
+    | { name: string; dialect?: "postgres" | "sqlite" }
+    | { name: string; dialect: "mysql"; table: string }
+): SqlEnumDiff {
+  const previousKeys = keysOf(previous);
+  const nextKeys = keysOf(next);
+  const previousSet = new Set(previousKeys);
+  const nextSet = new Set(nextKeys);
+
+  const removed = previousKeys.filter((key) => !nextSet.has(key));
+  const added = nextKeys.filter((key) => !previousSet.has(key));
+  const reordered = findMovedKeys(previousKeys, nextKeys);
+
+  const changes: SqlEnumChange[] = [
+    ...added.map((value) => ({ type: "added" as const, value })),
+    ...removed.map((value) => ({ type: "removed" as const, value })),
+    ...reordered.map((value) => ({ type: "reordered" as const, value })),
+  ];
+
+  const reasons: string[] = [];
+  const dialect = options.dialect ?? "postgres";
+  if ((added.length > 0 || removed.length > 0) && dialect === "sqlite") {
+    reasons.push(
+      "SQLite can't alter CHECK constraints, the table must be rebuilt"
+    );
+  }
+  if (removed.length > 0) {
+    reasons.push(
+      `Removed or renamed values must be migrated by hand: ${removed.map(quoteLiteral).join(", ")}`
+    );
+  }
+  if (reordered.length > 0 && dialect === "postgres") {
+    reasons.push(
+      `Postgres can't reorder existing enum values: ${reordered.map(quoteLiteral).join(", ")}`
+    );
+  }
+  if (reasons.length > 0) {
+    return { changes, statements: [], requiresManualMigration: true, reasons };
+  }
+  if (changes.length === 0 || dialect === "sqlite") {
+    return { changes, statements: [], requiresManualMigration: false, reasons };
+  }
+
+  if (options.dialect === "mysql") {
+    return {
+      changes,
+      statements: [
+        `ALTER TABLE ${quoteIdentifier(options.table, "`")} MODIFY COLUMN ${toSqlEnumDDL(options.name, nextKeys, { dialect: "mysql" })};`,
+      ],
+      requiresManualMigration: false,
+      reasons,
+    };
+  }
+
+  const type = quoteIdentifier(options.name, '"');
+  const present = new Set(previousKeys);
+  const statements = nextKeys.flatMap((key, index) => {
+    if (present.has(key)) {
+      return [];
+    }
+    present.add(key);
+    const after = nextKeys
+      .slice(0, index)
+      .reverse()
+      .find((other) => present.has(other));
+    if (after !== undefined) {
+      return [`ALTER TYPE ${type} ADD VALUE ${quoteLiteral(key)} AFTER ${quoteLiteral(after)};`];
+    }
+    const before = nextKeys.slice(index + 1).find((other) => present.has(other));
+    if (before !== undefined) {
+      return [`ALTER TYPE ${type} ADD VALUE ${quoteLiteral(key)} BEFORE ${quoteLiteral(before)};`];
+    }
+    return [`ALTER TYPE ${type} ADD VALUE ${quoteLiteral(key)};`];
+  });
+  return { changes, statements, requiresManualMigration: false, reasons };
+}
+
+function keysOf(source: SqlEnumSource): readonly string[] {
+  return Array.isArray(source)
+    ? source
+    : orderedKeysOf(source as AnyButterEnum);
+}
+
+function quoteLiteral(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Quotes an identifier, quoting each part of schema qualified names separately
+ */
+function quoteIdentifier(name: string, quote: '"' | "`") {
+  return name
+    .split(".")
+    .map((part) => `${quote}${part.split(quote).join(quote + quote)}${quote}`)
+    .join(".");
+}